@@ -0,0 +1,484 @@
+/**
+ * Runtime-agnostic parts of the access token handling, shared by the Node and the Web Crypto implementation.
+ * Must not depend on Node APIs like Buffer.
+ */
+
+export enum ContentCloudPermission {
+  // Grants read access to tags and assets, too.
+  CONTENT_READ = "permission:content:read",
+  // Only required if you want to query for Content Types in your app.
+  CONTENT_TYPE_READ = "permission:content-type:read",
+
+  // Request file content.
+  ASSET_READ_FILE = "permission:asset:read:file",
+
+  // Custom user data; always scoped to the current user.
+  USER_DATA_READ = "permission:user-data:read",
+  USER_DATA_WRITE = "permission:user-data:write",
+
+  // External content links, e.g. to get the canonical URL.
+  EXTERNAL_LINK_READ = "permission:external-link:read",
+  EXTERNAL_LINK_WRITE = "permission:external-link:write",
+
+  // Expands all _READ access to include drafts.
+  PREVIEW = "permission:preview",
+
+  // Grants access to dev GraphQL + dev REST interfaces that have introspection enabled and a UI.
+  // This permission is also required for generating code.
+  DEVELOPER = "permission:developer",
+
+  // Grants read access to the space and all related locales + environments.
+  SPACE_READ = "permission:space:read",
+}
+
+export enum ContentCloudService {
+  // Public content delivery APIs.
+  LIVE = "service:live",
+  CDN = "service:cdn",
+  ASSETS = "service:assets",
+  // Private content delivery APIs.
+  DEV = "service:dev",
+  PREVIEW = "service:preview",
+  ASSET_PREVIEWS = "service:asset-previews",
+  // Private content management APIs.
+  PUBLISHER = "service:publisher",
+}
+
+/**
+ *  The JWT format expected by the Content Cloud.
+ */
+export interface ContentCloudJwtPayload {
+  // This will be used for the audience property. You can make it specific to
+  // include the space + environment or keep it broader if you want to reuse
+  // a token across different domains.
+  baseUrl?: string;
+
+  services: ContentCloudService[];
+  permissions: ContentCloudPermission[];
+
+  spaceId?: string;
+  environmentIds?: string[];
+
+  // If the user is authenticated, fill this out with a custom ID.
+  // We recommend prefixing IDs and not using PII.
+  // E.g. "auth0:123456" instead of "test@example.com"
+  userId?: string;
+  // By default, users cannot access any user data types. Include the ones a
+  // user should have access to in here. You can also pass "*" to grant access
+  // to any user data type available in the environment.
+  userDataContentTypes?: string[];
+}
+
+/**
+ * Named combinations of services and permissions for common use cases.
+ */
+export const ACCESS_TOKEN_PRESETS = {
+  // Read published content and assets from the public delivery APIs.
+  publicDelivery: {
+    services: [ContentCloudService.LIVE, ContentCloudService.CDN, ContentCloudService.ASSETS],
+    permissions: [ContentCloudPermission.CONTENT_READ],
+  },
+  // Read drafts, e.g. for a preview deployment of your website.
+  preview: {
+    services: [ContentCloudService.PREVIEW, ContentCloudService.ASSET_PREVIEWS],
+    permissions: [ContentCloudPermission.CONTENT_READ, ContentCloudPermission.PREVIEW],
+  },
+  // Read published content and read + write the user data of the current user.
+  userDataApp: {
+    services: [ContentCloudService.LIVE, ContentCloudService.CDN, ContentCloudService.ASSETS],
+    permissions: [ContentCloudPermission.CONTENT_READ, ContentCloudPermission.USER_DATA_READ, ContentCloudPermission.USER_DATA_WRITE],
+  },
+  // Introspection and code generation against the dev interfaces.
+  developer: {
+    services: [ContentCloudService.DEV],
+    permissions: [
+      ContentCloudPermission.CONTENT_READ,
+      ContentCloudPermission.CONTENT_TYPE_READ,
+      ContentCloudPermission.SPACE_READ,
+      ContentCloudPermission.DEVELOPER,
+    ],
+  },
+} satisfies Record<string, Pick<ContentCloudJwtPayload, "services" | "permissions">>;
+
+export type AccessTokenPreset = keyof typeof ACCESS_TOKEN_PRESETS;
+
+/**
+ * Create the payload for the given preset. Services and permissions are
+ * added to the ones of the preset, all other properties are taken as is.
+ * The "userDataApp" preset requires a userId as user data is always scoped
+ * to the current user.
+ */
+export function createAccessTokenPayload(
+  preset: "userDataApp",
+  payload: Partial<ContentCloudJwtPayload> & { userId: string },
+): ContentCloudJwtPayload;
+export function createAccessTokenPayload(
+  preset: Exclude<AccessTokenPreset, "userDataApp">,
+  payload?: Partial<ContentCloudJwtPayload>,
+): ContentCloudJwtPayload;
+export function createAccessTokenPayload(preset: AccessTokenPreset, payload?: Partial<ContentCloudJwtPayload>): ContentCloudJwtPayload {
+  const { services, permissions } = ACCESS_TOKEN_PRESETS[preset];
+
+  return {
+    ...payload,
+    services: [...new Set([...services, ...(payload?.services ?? [])])],
+    permissions: [...new Set([...permissions, ...(payload?.permissions ?? [])])],
+  };
+}
+
+/**
+ * The result of validating a payload. Errors always lead to 403 responses,
+ * warnings are likely unintended.
+ */
+export interface AccessTokenPayloadValidation {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * How the payload is validated when signing a token.
+ */
+export interface AccessTokenValidationOptions {
+  // Reject payloads with warnings as well, e.g. in tests or during development.
+  strict?: boolean;
+  // Called with every warning. Warnings are ignored if not provided.
+  onWarning?: (warning: string) => void;
+}
+
+/**
+ * Check the payload for combinations of permissions, services and user data
+ * that the Content Cloud would reject.
+ */
+export function validateAccessTokenPayload(payload: ContentCloudJwtPayload): AccessTokenPayloadValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const services = payload.services ?? [];
+  const permissions = payload.permissions ?? [];
+  const hasPermission = (permission: ContentCloudPermission) => permissions.includes(permission);
+  const hasService = (...candidates: ContentCloudService[]) => candidates.some((service) => services.includes(service));
+
+  if (!services.length) {
+    warnings.push(`Tokens without services can't be used with any API.`);
+  }
+
+  if (hasPermission(ContentCloudPermission.PREVIEW) && !hasService(ContentCloudService.PREVIEW, ContentCloudService.ASSET_PREVIEWS)) {
+    errors.push(`${ContentCloudPermission.PREVIEW} requires ${ContentCloudService.PREVIEW} or ${ContentCloudService.ASSET_PREVIEWS}.`);
+  }
+  if (hasService(ContentCloudService.PREVIEW) && !hasPermission(ContentCloudPermission.PREVIEW)) {
+    warnings.push(`${ContentCloudService.PREVIEW} without ${ContentCloudPermission.PREVIEW} only returns published content.`);
+  }
+
+  if (hasPermission(ContentCloudPermission.DEVELOPER) && !hasService(ContentCloudService.DEV)) {
+    warnings.push(`${ContentCloudPermission.DEVELOPER} has no effect without ${ContentCloudService.DEV}.`);
+  }
+  if (hasService(ContentCloudService.DEV) && !hasPermission(ContentCloudPermission.DEVELOPER)) {
+    warnings.push(`${ContentCloudService.DEV} is usually used with ${ContentCloudPermission.DEVELOPER}.`);
+  }
+
+  if (
+    hasPermission(ContentCloudPermission.ASSET_READ_FILE) &&
+    !hasService(ContentCloudService.ASSETS, ContentCloudService.ASSET_PREVIEWS)
+  ) {
+    warnings.push(
+      `${ContentCloudPermission.ASSET_READ_FILE} requires ${ContentCloudService.ASSETS} or ${ContentCloudService.ASSET_PREVIEWS}.`,
+    );
+  }
+
+  const userDataPermissions = [ContentCloudPermission.USER_DATA_READ, ContentCloudPermission.USER_DATA_WRITE].filter(hasPermission);
+  if (userDataPermissions.length && !payload.userId) {
+    errors.push(`User data permissions require a userId as user data is always scoped to the current user.`);
+  }
+  if (userDataPermissions.length && !payload.userDataContentTypes?.length) {
+    warnings.push(`User data permissions without userDataContentTypes don't grant access to any user data type.`);
+  }
+  if (payload.userDataContentTypes?.length && !userDataPermissions.length) {
+    warnings.push(
+      `userDataContentTypes have no effect without ${ContentCloudPermission.USER_DATA_READ} or ${ContentCloudPermission.USER_DATA_WRITE}.`,
+    );
+  }
+
+  if (hasPermission(ContentCloudPermission.EXTERNAL_LINK_WRITE) && !hasPermission(ContentCloudPermission.EXTERNAL_LINK_READ)) {
+    warnings.push(
+      `${ContentCloudPermission.EXTERNAL_LINK_WRITE} without ${ContentCloudPermission.EXTERNAL_LINK_READ} can't read the links it writes.`,
+    );
+  }
+
+  return { errors, warnings };
+}
+
+export type SigningAlgorithm = "HS256" | "RS256" | "ES256" | "ES384" | "EdDSA";
+
+// DER encoded object identifiers of the supported key types and curves.
+const RSA_ENCRYPTION_OID = [0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01];
+const EC_PUBLIC_KEY_OID = [0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01];
+export const P256_CURVE_OID = [0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07];
+export const P384_CURVE_OID = [0x06, 0x05, 0x2b, 0x81, 0x04, 0x00, 0x22];
+const ED25519_OID = [0x06, 0x03, 0x2b, 0x65, 0x70];
+
+/**
+ * The parts of a client secret in the format "<clientId>:<base64 issuer>:<base64 secret>".
+ */
+export interface ClientSecretParts {
+  clientId: string;
+  issuer: string;
+  secret: Uint8Array;
+  // Whether the secret is a PEM encoded private key.
+  asymmetric: boolean;
+  // Detected from the type of the private key.
+  algorithm: SigningAlgorithm;
+}
+
+/**
+ * The claims of an access token before the timestamps are added, in the
+ * order in which they are serialized.
+ */
+export interface AccessTokenClaims {
+  aud: string;
+  iss: string;
+  scope: string[];
+  sub?: string;
+}
+
+/**
+ * A client secret with an explicit key version, used in the key ID
+ * "client:<clientId>:<version>" of the tokens it signs.
+ */
+export interface ContentCloudSigningKey {
+  clientSecret: string;
+  version: number;
+  // Retired keys are neither used for signing nor accepted for verification.
+  retired?: boolean;
+}
+
+/**
+ * Multiple signing keys to rotate client secrets without downtime: add the
+ * new key, switch the active version once it's registered in the Content
+ * Cloud, then retire the old key once its tokens expired.
+ */
+export interface ContentCloudKeyring {
+  keys: ContentCloudSigningKey[];
+  // The version used for signing. Defaults to the highest non-retired version.
+  activeVersion?: number;
+}
+
+/**
+ * The parsed secret together with the ID of its key.
+ */
+export interface ResolvedSigningKey extends ClientSecretParts {
+  keyId: string;
+}
+
+export function getKeyId(clientId: string, version = 0) {
+  return `client:${clientId}:${version}`;
+}
+
+function getEnv(name: string): string | undefined {
+  return typeof process === "object" ? process.env?.[name] : undefined;
+}
+
+/**
+ * Decode base64 like Buffer.from(value, "base64"), which also accepts the
+ * URL-safe alphabet, whitespace and missing padding.
+ */
+export function decodeBase64(value: string): Uint8Array {
+  const normalized = value.replace(/\s/g, "").replace(/-/g, "+").replace(/_/g, "/").replace(/=+$/, "");
+  return Uint8Array.from(atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "=")), (c) => c.charCodeAt(0));
+}
+
+export function parseClientSecret(clientSecret?: string): ClientSecretParts {
+  if (!clientSecret) {
+    clientSecret = getEnv("CC_CLIENT_SECRET");
+  }
+  if (!clientSecret) {
+    throw new Error(`Missing clientSecret to sign or verify access token.`);
+  }
+
+  const [clientId, issuerBase64, secretBase64] = clientSecret.split(":");
+  if (!clientId || !issuerBase64 || !secretBase64) {
+    throw new Error(`client secret uses an unsupported format.`);
+  }
+
+  const secretBinary = decodeBase64(secretBase64);
+  // Starts with -----
+  const asymmetric =
+    secretBinary.at(0) === 0x2d &&
+    secretBinary.at(1) === 0x2d &&
+    secretBinary.at(2) === 0x2d &&
+    secretBinary.at(3) === 0x2d &&
+    secretBinary.at(4) === 0x2d;
+
+  return {
+    clientId,
+    issuer: new TextDecoder().decode(decodeBase64(issuerBase64)),
+    secret: secretBinary,
+    asymmetric,
+    algorithm: asymmetric ? detectSigningAlgorithm(new TextDecoder().decode(secretBinary)) : "HS256",
+  };
+}
+
+/**
+ * Decode the first PEM block of the given text.
+ */
+export function parsePem(pem: string): { label: string; der: Uint8Array } {
+  const match = pem.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]+?)-----END \1-----/);
+  if (!match) {
+    throw new Error(`client secret must be a PEM encoded private key.`);
+  }
+
+  return { label: match[1]!, der: decodeBase64(match[2]!.replace(/\s+/g, "")) };
+}
+
+function includesBytes(haystack: Uint8Array, needle: number[]): boolean {
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Select the signing algorithm for the PEM encoded private key: RS256 for
+ * RSA, ES256 and ES384 for EC keys on P-256 and P-384, EdDSA for Ed25519.
+ * Supports PKCS#8 ("PRIVATE KEY"), PKCS#1 ("RSA PRIVATE KEY") and SEC1
+ * ("EC PRIVATE KEY") keys.
+ */
+export function detectSigningAlgorithm(pem: string): SigningAlgorithm {
+  const { label, der } = parsePem(pem);
+
+  if (label === "RSA PRIVATE KEY" || (label === "PRIVATE KEY" && includesBytes(der, RSA_ENCRYPTION_OID))) {
+    return "RS256";
+  }
+
+  if (label === "EC PRIVATE KEY" || (label === "PRIVATE KEY" && includesBytes(der, EC_PUBLIC_KEY_OID))) {
+    if (includesBytes(der, P256_CURVE_OID)) {
+      return "ES256";
+    }
+    if (includesBytes(der, P384_CURVE_OID)) {
+      return "ES384";
+    }
+    throw new Error(`client secret uses an unsupported elliptic curve. Use P-256 or P-384.`);
+  }
+
+  if (label === "PRIVATE KEY" && includesBytes(der, ED25519_OID)) {
+    return "EdDSA";
+  }
+
+  throw new Error(`client secret uses an unsupported key type "${label}". Use an unencrypted RSA, EC (P-256, P-384) or Ed25519 key.`);
+}
+
+/**
+ * Get the keys of the keyring that are accepted for verification.
+ */
+export function resolveVerificationKeys(clientSecret?: string | ContentCloudKeyring): ResolvedSigningKey[] {
+  if (typeof clientSecret === "object") {
+    return clientSecret.keys.filter((key) => !key.retired).map((key) => resolveKey(key.clientSecret, key.version));
+  }
+
+  return [resolveKey(clientSecret, 0)];
+}
+
+/**
+ * Get the key to sign new tokens with: the given client secret as version 0
+ * or the active key of the keyring.
+ */
+export function resolveSigningKey(clientSecret?: string | ContentCloudKeyring): ResolvedSigningKey {
+  if (typeof clientSecret !== "object") {
+    return resolveKey(clientSecret, 0);
+  }
+
+  const keys = clientSecret.keys.filter((key) => !key.retired);
+  const versions = keys.map((key) => key.version);
+  if (new Set(versions).size !== versions.length) {
+    throw new Error(`keyring contains multiple keys with the same version.`);
+  }
+
+  const key =
+    clientSecret.activeVersion === undefined
+      ? keys.sort((a, b) => b.version - a.version)[0]
+      : keys.find((key) => key.version === clientSecret.activeVersion);
+  if (!key) {
+    throw new Error(
+      clientSecret.activeVersion === undefined
+        ? `keyring doesn't contain any non-retired key.`
+        : `keyring doesn't contain a non-retired key with version ${clientSecret.activeVersion}.`,
+    );
+  }
+
+  return resolveKey(key.clientSecret, key.version);
+}
+
+function resolveKey(clientSecret: string | undefined, version: number): ResolvedSigningKey {
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`key version must be a non-negative integer.`);
+  }
+
+  const parts = parseClientSecret(clientSecret);
+  return { ...parts, keyId: getKeyId(parts.clientId, version) };
+}
+
+export function getAudience(baseUrl?: string) {
+  baseUrl = baseUrl ?? getEnv("CC_SATELLITE_BASE_URL") ?? getEnv("CC_BASE_URL");
+  if (!baseUrl) {
+    throw new Error(`baseUrl is missing.`);
+  }
+
+  return `https://${new URL(baseUrl).hostname}`;
+}
+
+/**
+ * Create the claims for the payload. Rejects payloads with invalid
+ * combinations and reports likely unintended ones to `onWarning`, or rejects
+ * them as well in strict mode.
+ */
+export function createAccessTokenClaims(
+  payload: ContentCloudJwtPayload,
+  issuer: string,
+  options?: AccessTokenValidationOptions,
+): AccessTokenClaims {
+  const { errors, warnings } = validateAccessTokenPayload(payload);
+  if (options?.strict) {
+    errors.push(...warnings);
+  }
+  if (errors.length) {
+    throw new Error(`Invalid access token payload: ${errors.join(" ")}`);
+  }
+  for (const warning of warnings) {
+    options?.onWarning?.(warning);
+  }
+
+  const claims: AccessTokenClaims = {
+    aud: getAudience(payload.baseUrl),
+    iss: issuer,
+    scope: [],
+  };
+
+  // Extend scope
+  if (payload.permissions) {
+    // Already prefixed with "permission:"
+    claims.scope.push(...payload.permissions);
+  }
+  if (payload.services) {
+    // Already prefixed with "service:"
+    claims.scope.push(...payload.services);
+  }
+
+  claims.scope.push(`space:${payload.spaceId ?? getEnv("CC_SPACE_ID")}`);
+  if (payload.environmentIds) {
+    claims.scope.push(...payload.environmentIds.map((envId) => `environment:${envId}`));
+  } else if (getEnv("CC_ENVIRONMENT_ID")) {
+    claims.scope.push(`environment:${getEnv("CC_ENVIRONMENT_ID")}`);
+  } else {
+    claims.scope.push("environment:*");
+  }
+
+  if (payload.userDataContentTypes) {
+    claims.scope.push(...payload.userDataContentTypes.map((ct) => `content-user-data:${ct}`));
+  }
+
+  if (payload.userId) {
+    claims.sub = payload.userId;
+  }
+
+  return claims;
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { describe, it } from "node:test";
+import { ContentCloudIntegrityError, ContentCloudUnverifiableError } from "./content-cloud-errors";
+import { AssetEntry, ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+
+const CONTENT = "file content";
+
+/**
+ * Create an asset whose file is served at the given URL with the given hash.
+ */
+function asset(hash: string, downloadUrl = "https://api.example.com/files/1"): AssetEntry {
+  return { sys: { id: "1" }, fields: { file: { downloadUrl, hash, details: { size: CONTENT.length } } } } as unknown as AssetEntry;
+}
+
+/**
+ * Create a client that serves the content for every request and records the Authorization header of each request.
+ */
+function createClient(assetHosts?: string[]) {
+  const authorizations: (string | undefined)[] = [];
+  const client = new ContentCloudSystemRestClient({
+    baseUrl: "https://api.example.com",
+    accessToken: "token",
+    assetHosts,
+    fetch: (async (_url: string, init: RequestInit) => {
+      authorizations.push((init.headers as Record<string, string>).Authorization);
+      return new Response(CONTENT);
+    }) as typeof fetch,
+  });
+
+  return { client, authorizations };
+}
+
+describe("assetFile", () => {
+  it("verifies hex and base64 encoded hashes", async () => {
+    const { client } = createClient();
+    const digest = createHash("sha256").update(CONTENT).digest();
+
+    for (const hash of [digest.toString("hex"), digest.toString("base64"), digest.toString("base64url")]) {
+      const file = await client.assetFile(asset(hash), { verify: true });
+      assert.equal(new TextDecoder().decode(await file.arrayBuffer()), CONTENT);
+    }
+
+    const file = await client.assetFile(asset(createHash("sha256").update("other").digest("hex")), { verify: true });
+    await assert.rejects(file.arrayBuffer(), ContentCloudIntegrityError);
+  });
+
+  it("throws instead of skipping the check if the hash can't be verified", async () => {
+    const { client } = createClient();
+
+    for (const hash of [createHash("md5").update(CONTENT).digest("hex"), "not a hash"]) {
+      const file = await client.assetFile(asset(hash), { verify: true });
+      await assert.rejects(file.arrayBuffer(), ContentCloudUnverifiableError);
+    }
+  });
+
+  it("sends the access token to the asset hosts, which may omit the scheme", async () => {
+    const { client, authorizations } = createClient(["assets.example.com"]);
+
+    await client.assetFile(asset("", "https://assets.example.com/files/1"));
+    await client.assetFile(asset("", "https://cdn.example.com/files/1"));
+
+    assert.deepEqual(authorizations, ["Bearer token", undefined]);
+    assert.throws(() => createClient(["https://exa mple.com"]), /Invalid asset host/);
+  });
+});
@@ -0,0 +1,262 @@
+import { ContentCloudIntegrityError, ContentCloudUnverifiableError } from "./content-cloud-errors";
+import { ClientRequestOptions } from "./content-cloud-request";
+import { AssetEntry } from "./content-cloud-system-rest-client";
+
+/**
+ * A range of bytes to request. Both offsets are inclusive, as in the HTTP Range header.
+ * If `end` isn't provided, the file is requested until its end.
+ */
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+/**
+ * Options for downloading an asset file.
+ */
+export interface AssetFileOptions extends ClientRequestOptions {
+  /**
+   * Only request the given range of bytes. Check `AssetFile.partial` whether the server honored the range.
+   */
+  range?: ByteRange;
+  /**
+   * Verify that the downloaded content matches the size and hash of the asset. A ContentCloudIntegrityError is thrown
+   * by `arrayBuffer()` or emitted by the stream if it doesn't. If the asset has a hash that can't be checked, e.g. an
+   * MD5 hash, a ContentCloudUnverifiableError is thrown instead of skipping the check.
+   * For partial responses, only the total size of the file is verified.
+   */
+  verify?: boolean;
+}
+
+/**
+ * The Web Crypto algorithms used to verify the asset hash, by the number of bytes of the hash.
+ * MD5 hashes (16 bytes) aren't supported by Web Crypto, so they can't be verified.
+ */
+const HASH_ALGORITHMS: Record<number, string> = {
+  20: "SHA-1",
+  32: "SHA-256",
+  48: "SHA-384",
+  64: "SHA-512",
+};
+
+/**
+ * Decode a hex or base64 (including base64url) encoded hash.
+ *
+ * @param {string} hash The encoded hash.
+ * @returns {Uint8Array | undefined} The bytes of the hash or undefined if it's in neither encoding.
+ */
+function decodeHash(hash: string): Uint8Array | undefined {
+  if (/^([0-9a-f]{2})+$/i.test(hash)) {
+    return Uint8Array.from(hash.match(/../g)!, (byte) => parseInt(byte, 16));
+  }
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(hash)) {
+    try {
+      return Uint8Array.from(atob(hash.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+    } catch {
+      // The length isn't valid for base64.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the hash algorithm for the given hex or base64 encoded hash, based on its length.
+ *
+ * @param {string} hash The encoded hash.
+ * @returns {string | undefined} The Web Crypto algorithm name or undefined if the hash format isn't supported.
+ */
+export function getHashAlgorithm(hash: string): string | undefined {
+  const bytes = decodeHash(hash);
+  return bytes && HASH_ALGORITHMS[bytes.length];
+}
+
+/**
+ * Build the value of the Range header for the given range.
+ *
+ * @param {ByteRange} range The range to request.
+ * @returns {string} The header value.
+ * @throws {Error} If the range is invalid.
+ */
+export function formatByteRange(range: ByteRange): string {
+  if (!Number.isInteger(range.start) || range.start < 0) {
+    throw new Error(`Invalid range start: ${range.start}`);
+  }
+  if (range.end !== undefined && (!Number.isInteger(range.end) || range.end < range.start)) {
+    throw new Error(`Invalid range end: ${range.end}`);
+  }
+
+  return `bytes=${range.start}-${range.end ?? ""}`;
+}
+
+/**
+ * Parse the value of a Content-Range header, e.g. "bytes 0-99/1234".
+ *
+ * @param {string | null} value The value of the header.
+ * @returns {{ start: number; end: number; size?: number } | undefined} The range or undefined if the header is missing or invalid.
+ */
+function parseContentRange(value: string | null): { start: number; end: number; size?: number } | undefined {
+  const match = value?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return { start: Number(match[1]), end: Number(match[2]), size: match[3] === "*" ? undefined : Number(match[3]) };
+}
+
+/**
+ * AssetFile wraps the response of an asset file download. The content can be consumed once, either as a stream or
+ * as an ArrayBuffer.
+ *
+ * Verifying the hash of a stream requires buffering the content until the stream ends, so prefer `arrayBuffer()`
+ * or disable verification for large files.
+ */
+export class AssetFile {
+  /**
+   * Create a new instance of the AssetFile.
+   *
+   * @param {AssetEntry} asset The asset the file belongs to.
+   * @param {Response} response The successful response of the download.
+   * @param {string} url The URL the file was downloaded from.
+   * @param {boolean} [verify] Whether to verify the content against the size and hash of the asset.
+   */
+  constructor(
+    public readonly asset: AssetEntry,
+    private readonly response: Response,
+    public readonly url: string,
+    private readonly verify = false,
+  ) {}
+
+  /**
+   * The HTTP status code of the response, i.e. 200 for the full file or 206 for a range.
+   */
+  get status(): number {
+    return this.response.status;
+  }
+
+  /**
+   * Whether the response only contains the requested range of the file.
+   */
+  get partial(): boolean {
+    return this.response.status === 206;
+  }
+
+  /**
+   * The MIME type of the file.
+   */
+  get contentType(): string {
+    return this.response.headers.get("Content-Type") ?? this.asset.fields.file.contentType;
+  }
+
+  /**
+   * The number of bytes in the response, if known.
+   */
+  get contentLength(): number | undefined {
+    const value = this.response.headers.get("Content-Length");
+    return value === null ? undefined : Number(value);
+  }
+
+  /**
+   * The range contained in a partial response and the total size of the file, if known.
+   */
+  get range(): { start: number; end: number; size?: number } | undefined {
+    return this.partial ? parseContentRange(this.response.headers.get("Content-Range")) : undefined;
+  }
+
+  /**
+   * Whether the content was already consumed.
+   */
+  get bodyUsed(): boolean {
+    return this.response.bodyUsed;
+  }
+
+  /**
+   * Get the content as a stream. If verification is enabled, the stream errors with a ContentCloudIntegrityError
+   * after the last chunk if the content doesn't match.
+   *
+   * @returns {ReadableStream<Uint8Array>} The content.
+   */
+  stream(): ReadableStream<Uint8Array> {
+    const body = this.response.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() });
+    if (!this.verify) {
+      return body;
+    }
+
+    const chunks: Uint8Array[] = [];
+    return body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          chunks.push(chunk);
+          controller.enqueue(chunk);
+        },
+        flush: () => this.verifyContent(chunks),
+      }),
+    );
+  }
+
+  /**
+   * Get the content as an ArrayBuffer.
+   *
+   * @returns {Promise<ArrayBuffer>} The content.
+   * @throws {ContentCloudIntegrityError} If verification is enabled and the content doesn't match.
+   * @throws {ContentCloudUnverifiableError} If verification is enabled and the hash of the asset can't be checked.
+   */
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    const content = await this.response.arrayBuffer();
+    if (this.verify) {
+      await this.verifyContent([new Uint8Array(content)]);
+    }
+    return content;
+  }
+
+  /**
+   * Verify the downloaded content against the size and hash of the asset.
+   * If the asset has no hash, only the size is verified.
+   *
+   * @param {Uint8Array[]} chunks The downloaded content.
+   * @throws {ContentCloudIntegrityError} If the content doesn't match.
+   * @throws {ContentCloudUnverifiableError} If the hash of the asset has a format or algorithm that isn't supported.
+   */
+  private async verifyContent(chunks: Uint8Array[]): Promise<void> {
+    const details = { status: this.response.status, method: "GET", url: this.url, headers: this.response.headers };
+    const file = this.asset.fields.file;
+    const expectedSize = file.details?.size;
+
+    if (this.partial) {
+      const size = this.range?.size;
+      if (typeof expectedSize === "number" && size !== undefined && size !== expectedSize) {
+        throw new ContentCloudIntegrityError(details, "size", expectedSize, size);
+      }
+      return;
+    }
+
+    const size = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    if (typeof expectedSize === "number" && size !== expectedSize) {
+      throw new ContentCloudIntegrityError(details, "size", expectedSize, size);
+    }
+
+    if (!file.hash) {
+      return;
+    }
+    const expected = decodeHash(file.hash);
+    const algorithm = expected && HASH_ALGORITHMS[expected.length];
+    if (!algorithm) {
+      throw new ContentCloudUnverifiableError(details, file.hash);
+    }
+
+    const content = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      content.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    const digest = new Uint8Array(await crypto.subtle.digest(algorithm, content));
+    if (digest.some((byte, index) => byte !== expected[index])) {
+      // Report the hash of the content in the same encoding as the hash of the asset.
+      const hash = /^([0-9a-f]{2})+$/i.test(file.hash)
+        ? Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")
+        : btoa(String.fromCharCode(...digest));
+      throw new ContentCloudIntegrityError(details, "hash", file.hash, hash);
+    }
+  }
+}
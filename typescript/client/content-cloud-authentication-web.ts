@@ -0,0 +1,158 @@
+import {
+  AccessTokenValidationOptions,
+  ContentCloudJwtPayload,
+  ContentCloudKeyring,
+  createAccessTokenClaims,
+  P256_CURVE_OID,
+  P384_CURVE_OID,
+  parsePem,
+  resolveSigningKey,
+  SigningAlgorithm,
+} from "./content-cloud-access-token-claims";
+
+export {
+  ACCESS_TOKEN_PRESETS,
+  ContentCloudPermission,
+  ContentCloudService,
+  createAccessTokenPayload,
+  validateAccessTokenPayload,
+  type AccessTokenPayloadValidation,
+  type AccessTokenPreset,
+  type AccessTokenValidationOptions,
+  type ContentCloudJwtPayload,
+  type ContentCloudKeyring,
+  type ContentCloudSigningKey,
+  type SigningAlgorithm,
+} from "./content-cloud-access-token-claims";
+
+// DER encoded AlgorithmIdentifier for rsaEncryption (1.2.840.113549.1.1.1) with NULL parameters.
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+// DER encoded id-ecPublicKey (1.2.840.10045.2.1), followed by the curve to form the AlgorithmIdentifier.
+const EC_PUBLIC_KEY_OID = [0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01];
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function encodeJson(value: object): string {
+  return encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function encodeDerLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length];
+  }
+
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length >>= 8;
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function encodeDer(tag: number, content: ArrayLike<number>): Uint8Array {
+  const header = [tag, ...encodeDerLength(content.length)];
+  const result = new Uint8Array(header.length + content.length);
+  result.set(header);
+  result.set(content, header.length);
+  return result;
+}
+
+function wrapPrivateKey(algorithmIdentifier: ArrayLike<number>, privateKey: Uint8Array): Uint8Array {
+  const octetString = encodeDer(0x04, privateKey);
+  const content = new Uint8Array(3 + algorithmIdentifier.length + octetString.length);
+  // Version 0
+  content.set([0x02, 0x01, 0x00]);
+  content.set(algorithmIdentifier, 3);
+  content.set(octetString, 3 + algorithmIdentifier.length);
+  return encodeDer(0x30, content);
+}
+
+/**
+ * Web Crypto only imports private keys in the PKCS#8 format, so wrap
+ * "BEGIN RSA PRIVATE KEY" (PKCS#1) keys into a PKCS#8 PrivateKeyInfo.
+ */
+export function wrapPkcs1PrivateKey(pkcs1: Uint8Array): Uint8Array {
+  return wrapPrivateKey(RSA_ALGORITHM_IDENTIFIER, pkcs1);
+}
+
+/**
+ * Wrap "BEGIN EC PRIVATE KEY" (SEC1) keys on the given curve into a PKCS#8
+ * PrivateKeyInfo.
+ */
+export function wrapSec1PrivateKey(sec1: Uint8Array, curveOid: number[]): Uint8Array {
+  return wrapPrivateKey(encodeDer(0x30, [...EC_PUBLIC_KEY_OID, ...curveOid]), sec1);
+}
+
+function getPkcs8PrivateKey(pem: string, algorithm: SigningAlgorithm): Uint8Array {
+  const { label, der } = parsePem(pem);
+  if (label === "RSA PRIVATE KEY") {
+    return wrapPkcs1PrivateKey(der);
+  }
+  if (label === "EC PRIVATE KEY") {
+    return wrapSec1PrivateKey(der, algorithm === "ES384" ? P384_CURVE_OID : P256_CURVE_OID);
+  }
+  return der;
+}
+
+// The Web Crypto parameters to import the key and to sign with it.
+const SIGNING_PARAMETERS: Record<
+  SigningAlgorithm,
+  { importParams: Parameters<SubtleCrypto["importKey"]>[2]; signParams: Parameters<SubtleCrypto["sign"]>[0] }
+> = {
+  HS256: { importParams: { name: "HMAC", hash: "SHA-256" }, signParams: "HMAC" },
+  RS256: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, signParams: "RSASSA-PKCS1-v1_5" },
+  // ECDSA signatures are returned in the raw R || S format required by JWS.
+  ES256: { importParams: { name: "ECDSA", namedCurve: "P-256" }, signParams: { name: "ECDSA", hash: "SHA-256" } },
+  ES384: { importParams: { name: "ECDSA", namedCurve: "P-384" }, signParams: { name: "ECDSA", hash: "SHA-384" } },
+  EdDSA: { importParams: { name: "Ed25519" }, signParams: "Ed25519" },
+};
+
+function importSigningKey(secret: Uint8Array, algorithm: SigningAlgorithm): Promise<CryptoKey> {
+  const { importParams } = SIGNING_PARAMETERS[algorithm];
+
+  // importKey() requires the bytes to be backed by an ArrayBuffer, so they are copied.
+  if (algorithm === "HS256") {
+    return crypto.subtle.importKey("raw", new Uint8Array(secret), importParams, false, ["sign"]);
+  }
+
+  return crypto.subtle.importKey(
+    "pkcs8",
+    new Uint8Array(getPkcs8PrivateKey(new TextDecoder().decode(secret), algorithm)),
+    importParams,
+    false,
+    ["sign"],
+  );
+}
+
+/**
+ * Sign an access token with the Web Crypto API, e.g. in Cloudflare Workers or
+ * Vercel Edge middleware. Produces the same token as generateAccessToken()
+ * from content-cloud-authentication.ts, which requires Node.
+ * Payloads the Content Cloud would reject throw an error. Pass `validation`
+ * to receive warnings for likely unintended payloads or to reject them too.
+ */
+export async function generateAccessToken(
+  payload: ContentCloudJwtPayload,
+  ttlInSeconds = 3_600,
+  clientSecret?: string | ContentCloudKeyring,
+  validation?: AccessTokenValidationOptions,
+): Promise<string> {
+  const { keyId, issuer, secret, algorithm } = resolveSigningKey(clientSecret);
+
+  // Same header and claim order as jsonwebtoken.
+  const header = { alg: algorithm, typ: "JWT", kid: keyId };
+  const iat = Math.floor(Date.now() / 1_000);
+  const claims = { ...createAccessTokenClaims(payload, issuer, validation), iat, exp: iat + ttlInSeconds };
+
+  const signingInput = `${encodeJson(header)}.${encodeJson(claims)}`;
+  const key = await importSigningKey(secret, algorithm);
+  const signature = await crypto.subtle.sign(SIGNING_PARAMETERS[algorithm].signParams, key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
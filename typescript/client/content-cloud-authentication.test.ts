@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync } from "node:crypto";
+import { describe, it } from "node:test";
+import jsonwebtoken from "jsonwebtoken";
+import {
+  ContentCloudJwtPayload,
+  ContentCloudPermission,
+  ContentCloudService,
+  decodeAccessToken,
+  exportJwks,
+  generateAccessToken,
+  verifyAccessToken,
+} from "./content-cloud-authentication";
+import { generateAccessToken as generateAccessTokenWeb } from "./content-cloud-authentication-web";
+
+const PAYLOAD: ContentCloudJwtPayload = {
+  baseUrl: "https://api.example.com",
+  services: [ContentCloudService.LIVE],
+  permissions: [ContentCloudPermission.CONTENT_READ],
+  spaceId: "space-1",
+  environmentIds: ["main"],
+  userId: "auth0:123",
+};
+const VERIFY = { baseUrl: "https://api.example.com" };
+
+function createClientSecret(secret: string | Buffer, clientId = "client-1"): string {
+  return `${clientId}:${Buffer.from("https://issuer.example.com").toString("base64")}:${Buffer.from(secret).toString("base64")}`;
+}
+
+const SECRETS: Record<string, string> = {
+  HS256: createClientSecret("a shared secret of sufficient length"),
+  RS256: createClientSecret(generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ type: "pkcs1", format: "pem" })),
+  ES256: createClientSecret(generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey.export({ type: "sec1", format: "pem" })),
+  ES384: createClientSecret(generateKeyPairSync("ec", { namedCurve: "P-384" }).privateKey.export({ type: "pkcs8", format: "pem" })),
+  EdDSA: createClientSecret(generateKeyPairSync("ed25519").privateKey.export({ type: "pkcs8", format: "pem" })),
+};
+
+describe("access tokens", () => {
+  for (const [algorithm, clientSecret] of Object.entries(SECRETS)) {
+    it(`signs and verifies ${algorithm} tokens with Node and Web Crypto`, async () => {
+      for (const token of [generateAccessToken(PAYLOAD, 60, clientSecret), await generateAccessTokenWeb(PAYLOAD, 60, clientSecret)]) {
+        assert.equal(jsonwebtoken.decode(token, { complete: true })?.header.alg, algorithm);
+
+        const payload = verifyAccessToken(token, clientSecret, VERIFY);
+        assert.equal(payload.baseUrl, "https://api.example.com");
+        assert.equal(payload.issuer, "https://issuer.example.com");
+        assert.equal(payload.spaceId, "space-1");
+        assert.equal(payload.userId, "auth0:123");
+        assert.deepEqual(payload.environmentIds, ["main"]);
+        assert.deepEqual(payload.services, PAYLOAD.services);
+        assert.deepEqual(payload.permissions, PAYLOAD.permissions);
+      }
+    });
+  }
+
+  it("accepts client secrets in base64url without padding", async () => {
+    const secret = Buffer.concat([Buffer.from("shared secret "), Buffer.from([0xfb, 0xef, 0xff])]);
+    const clientSecret = `client-1:${Buffer.from("https://issuer.example.com").toString("base64url")}:${secret.toString("base64url")}`;
+
+    assert.match(clientSecret, /[-_][^=]+$/);
+    for (const token of [generateAccessToken(PAYLOAD, 60, clientSecret), await generateAccessTokenWeb(PAYLOAD, 60, clientSecret)]) {
+      assert.equal(verifyAccessToken(token, createClientSecret(secret), VERIFY).spaceId, "space-1");
+    }
+  });
+
+  it("decodes tokens without verifying them", () => {
+    const payload = decodeAccessToken(generateAccessToken(PAYLOAD, 60, SECRETS.HS256));
+
+    assert.equal(payload.spaceId, "space-1");
+    assert.ok(payload.expiresAt!.getTime() > Date.now());
+  });
+
+  it("rejects tokens signed with another secret, for another base URL or that expired", () => {
+    const token = generateAccessToken(PAYLOAD, 60, SECRETS.HS256);
+
+    assert.throws(() => verifyAccessToken(token, createClientSecret("another secret"), VERIFY), { message: "invalid signature" });
+    assert.throws(() => verifyAccessToken(token, SECRETS.HS256, { baseUrl: "https://other.example.com" }), /audience invalid/);
+    assert.throws(
+      () => verifyAccessToken(generateAccessToken(PAYLOAD, -60, SECRETS.HS256), SECRETS.HS256, VERIFY),
+      jsonwebtoken.TokenExpiredError,
+    );
+    assert.throws(
+      () => verifyAccessToken(generateAccessToken(PAYLOAD, -60, SECRETS.EdDSA), SECRETS.EdDSA, VERIFY),
+      jsonwebtoken.TokenExpiredError,
+    );
+  });
+
+  it("selects the key of a keyring by the key ID of the token", () => {
+    const keyring = {
+      keys: [
+        { clientSecret: SECRETS.HS256, version: 1 },
+        { clientSecret: SECRETS.RS256, version: 2 },
+      ],
+    };
+    const token = generateAccessToken(PAYLOAD, 60, { ...keyring, activeVersion: 1 });
+
+    assert.equal(jsonwebtoken.decode(token, { complete: true })?.header.kid, "client:client-1:1");
+    assert.equal(verifyAccessToken(token, keyring, VERIFY).spaceId, "space-1");
+    assert.throws(
+      () => verifyAccessToken(token, { keys: [{ ...keyring.keys[0]!, retired: true }, keyring.keys[1]!] }, VERIFY),
+      /unknown or retired key: client:client-1:1/,
+    );
+  });
+
+  it("exports the public keys of asymmetric secrets", () => {
+    const jwks = exportJwks({
+      keys: [
+        { clientSecret: SECRETS.HS256, version: 1 },
+        { clientSecret: SECRETS.RS256, version: 2 },
+      ],
+    });
+
+    assert.deepEqual(
+      jwks.keys.map(({ kid, alg, kty }) => ({ kid, alg, kty })),
+      [{ kid: "client:client-1:2", alg: "RS256", kty: "RSA" }],
+    );
+  });
+
+  it("rejects payloads the Content Cloud rejects and reports likely mistakes as warnings", () => {
+    const warnings: string[] = [];
+    const payload = { ...PAYLOAD, services: [] };
+
+    assert.ok(generateAccessToken(payload, 60, SECRETS.HS256, { onWarning: (warning) => warnings.push(warning) }));
+    assert.equal(warnings.length, 1);
+    assert.throws(() => generateAccessToken(payload, 60, SECRETS.HS256, { strict: true }));
+    assert.throws(
+      () => generateAccessToken({ ...PAYLOAD, permissions: [ContentCloudPermission.PREVIEW] }, 60, SECRETS.HS256),
+      /service:preview/,
+    );
+  });
+});
@@ -1,134 +1,273 @@
+import { createPrivateKey, createPublicKey, JsonWebKey, KeyObject, sign, verify } from "crypto";
 import jsonwebtoken, { JwtPayload } from "jsonwebtoken";
+import {
+  AccessTokenClaims,
+  AccessTokenValidationOptions,
+  ContentCloudJwtPayload,
+  ContentCloudPermission,
+  ContentCloudService,
+  ContentCloudKeyring,
+  createAccessTokenClaims,
+  getAudience,
+  resolveSigningKey,
+  ResolvedSigningKey,
+  resolveVerificationKeys,
+} from "./content-cloud-access-token-claims";
 
-export enum ContentCloudPermission {
-  // Grants read access to tags and assets, too.
-  CONTENT_READ = "permission:content:read",
-  // Only required if you want to query for Content Types in your app.
-  CONTENT_TYPE_READ = "permission:content-type:read",
+// Re-exported for compatibility, the types are defined in the runtime-agnostic claims module.
+export {
+  ACCESS_TOKEN_PRESETS,
+  ContentCloudPermission,
+  ContentCloudService,
+  createAccessTokenPayload,
+  validateAccessTokenPayload,
+  type AccessTokenPayloadValidation,
+  type AccessTokenPreset,
+  type AccessTokenValidationOptions,
+  type ContentCloudJwtPayload,
+  type ContentCloudKeyring,
+  type ContentCloudSigningKey,
+  type SigningAlgorithm,
+} from "./content-cloud-access-token-claims";
 
-  // Request file content.
-  ASSET_READ_FILE = "permission:asset:read:file",
+function encodeBase64Url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
 
-  // Custom user data; always scoped to the current user.
-  USER_DATA_READ = "permission:user-data:read",
-  USER_DATA_WRITE = "permission:user-data:write",
+/**
+ * jsonwebtoken doesn't support EdDSA, so Ed25519 tokens are signed with
+ * node:crypto directly, using the same header and claim order.
+ */
+function signEdDsa(claims: AccessTokenClaims, ttlInSeconds: number, { keyId, secret }: ResolvedSigningKey): string {
+  const header = { alg: "EdDSA", typ: "JWT", kid: keyId };
+  const iat = Math.floor(Date.now() / 1_000);
+  const body = { ...claims, iat, exp: iat + ttlInSeconds };
+  const signingInput = `${encodeBase64Url(JSON.stringify(header))}.${encodeBase64Url(JSON.stringify(body))}`;
+  const signature = sign(null, Buffer.from(signingInput), createPrivateKey(Buffer.from(secret).toString("utf8")));
+  return `${signingInput}.${encodeBase64Url(signature)}`;
+}
 
-  // External content links, e.g. to get the canonical URL.
-  EXTERNAL_LINK_READ = "permission:external-link:read",
-  EXTERNAL_LINK_WRITE = "permission:external-link:write",
+/**
+ * Sign an access token with the client secret or the active key of the
+ * keyring. Defaults to the CC_CLIENT_SECRET environment variable.
+ * The algorithm follows the key: HS256 for shared secrets and RS256, ES256,
+ * ES384 or EdDSA for RSA, P-256, P-384 or Ed25519 private keys.
+ * Payloads the Content Cloud would reject throw an error. Pass `validation`
+ * to receive warnings for likely unintended payloads or to reject them too.
+ */
+export function generateAccessToken(
+  payload: ContentCloudJwtPayload,
+  ttlInSeconds = 3_600,
+  clientSecret?: string | ContentCloudKeyring,
+  validation?: AccessTokenValidationOptions,
+) {
+  const key = resolveSigningKey(clientSecret);
+  const { keyId, issuer, secret, asymmetric, algorithm } = key;
 
-  // Expands all _READ access to include drafts.
-  PREVIEW = "permission:preview",
+  const externalPayload: JwtPayload & AccessTokenClaims = createAccessTokenClaims(payload, issuer, validation);
+  if (algorithm === "EdDSA") {
+    return signEdDsa(externalPayload, ttlInSeconds, key);
+  }
 
-  // Grants access to dev GraphQL + dev REST interfaces that have introspection enabled and a UI.
-  // This permission is also required for generating code.
-  DEVELOPER = "permission:developer",
+  return jsonwebtoken.sign(externalPayload, asymmetric ? Buffer.from(secret).toString("utf8") : Buffer.from(secret), {
+    algorithm,
+    keyid: keyId,
+    expiresIn: ttlInSeconds,
+  });
+}
 
-  // Grants read access to the space and all related locales + environments.
-  SPACE_READ = "permission:space:read",
+/**
+ *  The payload of a verified or decoded access token, mapped back from the
+ *  flat scope claim. Tokens without environment restrictions have the
+ *  environment ID "*".
+ */
+export interface ContentCloudAccessTokenPayload extends ContentCloudJwtPayload {
+  // The audience of the token, e.g. "https://api.example.com".
+  baseUrl: string;
+  issuer?: string;
+  issuedAt?: Date;
+  expiresAt?: Date;
 }
 
-export enum ContentCloudService {
-  // Public content delivery APIs.
-  LIVE = "service:live",
-  CDN = "service:cdn",
-  ASSETS = "service:assets",
-  // Private content delivery APIs.
-  DEV = "service:dev",
-  PREVIEW = "service:preview",
-  ASSET_PREVIEWS = "service:asset-previews",
-  // Private content management APIs.
-  PUBLISHER = "service:publisher",
+function isEnumValue<Value extends string>(values: Record<string, Value>, value: string): value is Value {
+  return (Object.values(values) as string[]).includes(value);
 }
 
 /**
- *  The JWT format expected by the Content Cloud.
+ * Map the registered claims and the flat scope array back into a typed payload.
+ * Unknown scope entries are ignored.
  */
-export interface ContentCloudJwtPayload {
-  // This will be used for the audience property. You can make it specific to
-  // include the space + environment or keep it broader if you want to reuse
-  // a token across different domains.
-  baseUrl?: string;
+export function mapAccessTokenClaims(claims: JwtPayload & { scope?: string[] | string }): ContentCloudAccessTokenPayload {
+  const scope = typeof claims.scope === "string" ? claims.scope.split(" ") : (claims.scope ?? []);
 
-  services: ContentCloudService[];
-  permissions: ContentCloudPermission[];
-
-  spaceId?: string;
-  environmentIds?: string[];
+  const payload: ContentCloudAccessTokenPayload = {
+    baseUrl: (Array.isArray(claims.aud) ? claims.aud[0] : claims.aud) ?? "",
+    services: [],
+    permissions: [],
+  };
 
-  // If the user is authenticated, fill this out with a custom ID.
-  // We recommend prefixing IDs and not using PII.
-  // E.g. "auth0:123456" instead of "test@example.com"
-  userId?: string;
-  // By default, users cannot access any user data types. Include the ones a
-  // user should have access to in here. You can also pass "*" to grant access
-  // to any user data type available in the environment.
-  userDataContentTypes?: string[];
-}
+  for (const entry of scope) {
+    const separator = entry.indexOf(":");
+    const value = entry.slice(separator + 1);
+    switch (entry.slice(0, separator)) {
+      case "permission":
+        if (isEnumValue(ContentCloudPermission, entry)) {
+          payload.permissions.push(entry);
+        }
+        break;
+      case "service":
+        if (isEnumValue(ContentCloudService, entry)) {
+          payload.services.push(entry);
+        }
+        break;
+      case "space":
+        payload.spaceId = value;
+        break;
+      case "environment":
+        (payload.environmentIds ??= []).push(value);
+        break;
+      case "content-user-data":
+        (payload.userDataContentTypes ??= []).push(value);
+        break;
+    }
+  }
 
-export function generateAccessToken(payload: ContentCloudJwtPayload, ttlInSeconds = 3_600, clientSecret?: string) {
-  if (!clientSecret) {
-    clientSecret = process.env.CC_CLIENT_SECRET;
+  if (claims.sub) {
+    payload.userId = claims.sub;
   }
-  if (!clientSecret) {
-    throw new Error(`Missing clientSecret to sign access token.`);
+  if (claims.iss) {
+    payload.issuer = claims.iss;
   }
-
-  const [clientId, issuerBase64, secretBase64] = clientSecret.split(":");
-  if (!clientId || !issuerBase64 || !secretBase64) {
-    throw new Error(`client secret uses an unsupported format.`);
+  if (typeof claims.iat === "number") {
+    payload.issuedAt = new Date(claims.iat * 1_000);
+  }
+  if (typeof claims.exp === "number") {
+    payload.expiresAt = new Date(claims.exp * 1_000);
   }
 
-  const baseUrl = payload.baseUrl ?? process.env.CC_SATELLITE_BASE_URL ?? process.env.CC_BASE_URL;
-  if (!baseUrl) {
-    throw new Error(`baseUrl is missing.`);
+  return payload;
+}
+
+/**
+ * Decode an access token WITHOUT verifying it. Only use this for tokens you
+ * already trust, e.g. to display the permissions of the current token.
+ * Use verifyAccessToken() for tokens passed by browsers.
+ */
+export function decodeAccessToken(token: string): ContentCloudAccessTokenPayload {
+  const claims = jsonwebtoken.decode(token, { json: true });
+  if (!claims) {
+    throw new Error(`access token can't be decoded.`);
   }
 
-  const externalPayload: JwtPayload & { scope: string[] } = {
-    aud: `https://${new URL(baseUrl).hostname}`,
-    iss: Buffer.from(issuerBase64, "base64").toString("utf8"),
-    scope: [],
-  };
+  return mapAccessTokenClaims(claims);
+}
 
-  // Extend scope
-  if (payload.permissions) {
-    // Already prefixed with "permission:"
-    externalPayload.scope.push(...payload.permissions);
+export interface VerifyAccessTokenOptions {
+  // The base URL the token must be issued for. Defaults to the same
+  // environment variables as generateAccessToken().
+  baseUrl?: string;
+  // Allowed clock skew in seconds when checking the expiry.
+  clockTolerance?: number;
+}
+
+/**
+ * Verify an EdDSA token with node:crypto and check the same claims as
+ * jsonwebtoken.verify(), throwing the same errors.
+ */
+function verifyEdDsa(
+  token: string,
+  publicKey: KeyObject,
+  options: { audience: string; issuer: string; clockTolerance?: number },
+): JwtPayload {
+  const decoded = jsonwebtoken.decode(token, { complete: true, json: true });
+  if (!decoded) {
+    throw new jsonwebtoken.JsonWebTokenError("jwt malformed");
+  }
+  if (decoded.header.alg !== "EdDSA") {
+    throw new jsonwebtoken.JsonWebTokenError("invalid algorithm");
   }
-  if (payload.services) {
-    // Already prefixed with "service:"
-    externalPayload.scope.push(...payload.services);
+
+  const [header, body, signature] = token.split(".");
+  if (!verify(null, Buffer.from(`${header}.${body}`), publicKey, Buffer.from(signature!, "base64url"))) {
+    throw new jsonwebtoken.JsonWebTokenError("invalid signature");
   }
 
-  externalPayload.scope.push(`space:${payload.spaceId ?? process.env.CC_SPACE_ID}`);
-  if (payload.environmentIds) {
-    externalPayload.scope.push(...payload.environmentIds.map((envId) => `environment:${envId}`));
-  } else if (process.env.CC_ENVIRONMENT_ID) {
-    externalPayload.scope.push(`environment:${process.env.CC_ENVIRONMENT_ID}`);
-  } else {
-    externalPayload.scope.push("environment:*");
+  const claims = decoded.payload as JwtPayload;
+  const now = Math.floor(Date.now() / 1_000);
+  const clockTolerance = options.clockTolerance ?? 0;
+  if (typeof claims.nbf === "number" && claims.nbf > now + clockTolerance) {
+    throw new jsonwebtoken.NotBeforeError("jwt not active", new Date(claims.nbf * 1_000));
+  }
+  if (typeof claims.exp === "number" && now >= claims.exp + clockTolerance) {
+    throw new jsonwebtoken.TokenExpiredError("jwt expired", new Date(claims.exp * 1_000));
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.audience)) {
+    throw new jsonwebtoken.JsonWebTokenError(`jwt audience invalid. expected: ${options.audience}`);
   }
+  if (claims.iss !== options.issuer) {
+    throw new jsonwebtoken.JsonWebTokenError(`jwt issuer invalid. expected: ${options.issuer}`);
+  }
+
+  return claims;
+}
 
-  if (payload.userDataContentTypes) {
-    externalPayload.scope.push(...payload.userDataContentTypes.map((ct) => `content-user-data:${ct}`));
+/**
+ * Verify the signature, expiry, audience and issuer of an access token signed
+ * with generateAccessToken() and return its payload.
+ * With a keyring, the token must be signed by one of its non-retired keys.
+ *
+ * @throws {jsonwebtoken.JsonWebTokenError} If the token is invalid. This is a
+ *   jsonwebtoken.TokenExpiredError if the token expired.
+ */
+export function verifyAccessToken(
+  token: string,
+  clientSecret?: string | ContentCloudKeyring,
+  options?: VerifyAccessTokenOptions,
+): ContentCloudAccessTokenPayload {
+  const keys = resolveVerificationKeys(clientSecret);
+
+  // With a keyring, the key is selected by the key ID of the token.
+  const keyId = typeof clientSecret === "object" ? jsonwebtoken.decode(token, { complete: true })?.header.kid : undefined;
+  const key: ResolvedSigningKey | undefined = typeof clientSecret === "object" ? keys.find((key) => key.keyId === keyId) : keys[0];
+  if (!key) {
+    throw new jsonwebtoken.JsonWebTokenError(`access token is signed with an unknown or retired key: ${keyId}`);
   }
+  const { issuer, secret, asymmetric, algorithm } = key;
 
-  if (payload.userId) {
-    externalPayload.sub = payload.userId;
+  const verifyOptions = { audience: getAudience(options?.baseUrl), issuer, clockTolerance: options?.clockTolerance };
+  // The public key is derived from the private key for asymmetric algorithms.
+  const secretOrPublicKey = asymmetric ? createPublicKey(Buffer.from(secret).toString("utf8")) : Buffer.from(secret);
+
+  const claims =
+    algorithm === "EdDSA"
+      ? verifyEdDsa(token, secretOrPublicKey as KeyObject, verifyOptions)
+      : jsonwebtoken.verify(token, secretOrPublicKey, { ...verifyOptions, algorithms: [algorithm] });
+  if (typeof claims === "string") {
+    throw new jsonwebtoken.JsonWebTokenError(`access token payload must be an object.`);
   }
 
-  const secretBinary = Buffer.from(secretBase64, "base64");
-  // Starts with -----
-  const asymmetric =
-    secretBinary.at(0) === 0x2d &&
-    secretBinary.at(1) === 0x2d &&
-    secretBinary.at(2) === 0x2d &&
-    secretBinary.at(3) === 0x2d &&
-    secretBinary.at(4) === 0x2d;
+  return mapAccessTokenClaims(claims);
+}
 
-  return jsonwebtoken.sign(externalPayload, asymmetric ? secretBinary.toString("utf8") : secretBinary, {
-    algorithm: asymmetric ? "RS256" : "HS256",
-    keyid: `client:${clientId}:0`,
-    expiresIn: ttlInSeconds,
-  });
+export interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid: string; alg: string; use: string })[];
+}
+
+/**
+ * Export the public keys of all non-retired RSA, EC and Ed25519 keys as a JWKS document,
+ * e.g. to serve it at /.well-known/jwks.json for other services verifying
+ * the tokens. HS256 secrets are symmetric and never exported.
+ */
+export function exportJwks(clientSecret?: string | ContentCloudKeyring): JsonWebKeySet {
+  return {
+    keys: resolveVerificationKeys(clientSecret)
+      .filter((key) => key.asymmetric)
+      .map((key) => ({
+        ...createPublicKey(Buffer.from(key.secret).toString("utf8")).export({ format: "jwk" }),
+        kid: key.keyId,
+        alg: key.algorithm,
+        use: "sig",
+      })),
+  };
 }
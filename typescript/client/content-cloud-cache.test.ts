@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ContentCloudResponseCache } from "./content-cloud-cache";
+import { createContentCloudGraphQLClient } from "./content-cloud-graphql-client";
+import { ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+import { ContentCloudTokenManager } from "./content-cloud-token-manager";
+
+const BASE_URL = "https://api.example.com";
+
+/**
+ * Create a fetch function that answers with the result of the handler and records the requested URLs.
+ */
+function mockFetch(handler: (url: string, authorization?: string) => unknown) {
+  const calls: string[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    calls.push(url);
+    const body = handler(url, (init.headers as Record<string, string>).Authorization);
+    return body === undefined ? new Response(null, { status: 404 }) : Response.json(body);
+  }) as typeof globalThis.fetch;
+
+  return { fetch, calls };
+}
+
+/**
+ * Create an unsigned JWT with the given claims.
+ */
+function createJwt(claims: Record<string, unknown>): string {
+  return ["{}", JSON.stringify(claims), "signature"].map((part) => Buffer.from(part).toString("base64url")).join(".");
+}
+
+describe("ContentCloudResponseCache", () => {
+  it("only shares responses between clients whose tokens have the same claims", async () => {
+    const cache = new ContentCloudResponseCache();
+    const { fetch, calls } = mockFetch((_url, authorization) => ({ authorization }));
+    const client = (accessToken: string) =>
+      new ContentCloudSystemRestClient({ baseUrl: BASE_URL, spaceId: "space-1", accessToken, fetch, cache });
+    const scope = { spaceId: "space-1", permissions: ["content:read"] };
+
+    assert.deepEqual(await client("token-a").get("/entries"), { authorization: "Bearer token-a" });
+    assert.deepEqual(await client("token-b").get("/entries"), { authorization: "Bearer token-b" });
+    assert.deepEqual(await client("token-a").get("/entries"), { authorization: "Bearer token-a" });
+    assert.equal(calls.length, 2);
+
+    assert.equal(
+      await new ContentCloudTokenManager(createJwt({ ...scope, exp: 1 })).getScope(),
+      await new ContentCloudTokenManager(createJwt({ ...scope, exp: 2 })).getScope(),
+    );
+    assert.notEqual(
+      await new ContentCloudTokenManager(createJwt(scope)).getScope(),
+      await new ContentCloudTokenManager(createJwt({ ...scope, permissions: ["content:write"] })).getScope(),
+    );
+  });
+
+  it("invalidates GraphQL queries by the ID or machine name of the content type", async () => {
+    const cache = new ContentCloudResponseCache();
+    const graphql = mockFetch(() => ({ data: { articleCollection: { items: [{ title: "Hello" }] } } }));
+    const rest = mockFetch((url) => {
+      if (url === `${BASE_URL}/content_types/ct-article`) {
+        return { id: "ct-article", machineName: "article" };
+      }
+      return url.startsWith(`${BASE_URL}/content_types?`) ? { items: [] } : undefined;
+    });
+    const client = createContentCloudGraphQLClient({
+      baseUrl: BASE_URL,
+      accessToken: "token",
+      fetch: graphql.fetch,
+      cache,
+      system: new ContentCloudSystemRestClient({ baseUrl: BASE_URL, fetch: rest.fetch }),
+    });
+    const load = () => client.collection("Article", { items: { title: 1 } });
+
+    await load();
+    await load();
+    assert.equal(graphql.calls.length, 1);
+
+    await client.invalidateCache({ contentType: "ct-article" });
+    await load();
+    assert.equal(graphql.calls.length, 2);
+
+    await client.invalidateCache({ contentType: "author" });
+    await load();
+    assert.equal(graphql.calls.length, 2);
+
+    await new ContentCloudSystemRestClient({ baseUrl: BASE_URL, fetch: rest.fetch, cache }).invalidateCache({ contentType: "article" });
+    await load();
+    assert.equal(graphql.calls.length, 3);
+  });
+});
@@ -0,0 +1,381 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A cached response as stored by a CacheStore.
+ *
+ * @template Value The type of the cached value.
+ */
+export interface CacheRecord<Value = unknown> {
+  /**
+   * The cached response body. Must be serializable to JSON for stores that persist records.
+   */
+  value: Value;
+  /**
+   * The timestamp in milliseconds until the record is fresh.
+   */
+  expiresAt: number;
+  /**
+   * The timestamp in milliseconds until the record may be served while it's being revalidated.
+   */
+  staleUntil: number;
+  /**
+   * The tags used for invalidation, e.g. "entry:<id>" or "content-type:<id>".
+   */
+  tags: string[];
+}
+
+/**
+ * The storage interface for the response cache. Implement this to back the cache by Redis, the filesystem etc.
+ * All methods may return a promise.
+ * Stores can remove records after their `staleUntil` timestamp as they will never be served again.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheRecord | undefined> | CacheRecord | undefined;
+  set(key: string, record: CacheRecord): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  /**
+   * Return all keys starting with the given prefix. Used for invalidation.
+   */
+  keys(prefix: string): Promise<string[]> | string[];
+}
+
+/**
+ * An in-memory CacheStore that removes the least recently used records once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly records = new Map<string, CacheRecord>();
+
+  /**
+   * Create a new instance of the MemoryCacheStore.
+   *
+   * @param {number} [maxEntries] The maximum number of records to keep.
+   */
+  constructor(private readonly maxEntries = 1_000) {}
+
+  get(key: string): CacheRecord | undefined {
+    const record = this.records.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    if (record.staleUntil <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+
+    // Move the record to the end to mark it as recently used.
+    this.records.delete(key);
+    this.records.set(key, record);
+
+    return record;
+  }
+
+  set(key: string, record: CacheRecord): void {
+    this.records.delete(key);
+    this.records.set(key, record);
+
+    while (this.records.size > this.maxEntries) {
+      this.records.delete(this.records.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+
+  keys(prefix: string): string[] {
+    return [...this.records.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
+
+/**
+ * How long responses are cached.
+ */
+export interface CacheLifetime {
+  /**
+   * How long a response is fresh in milliseconds.
+   */
+  ttl?: number;
+  /**
+   * How long a response may be served in milliseconds after it expired, while it's revalidated in the background.
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Options for the response cache.
+ */
+export interface ResponseCacheOptions extends CacheLifetime {
+  /**
+   * The store to use. Defaults to a MemoryCacheStore.
+   */
+  store?: CacheStore;
+  /**
+   * Called if a stale response couldn't be revalidated in the background. The stale response keeps being served until
+   * it can't be served anymore. Errors are ignored if not provided.
+   */
+  onError?: (error: unknown, key: string) => void;
+}
+
+/**
+ * Options for loading a single value with the cache.
+ */
+export interface CacheFetchOptions extends CacheLifetime {
+  /**
+   * Tags for invalidation in addition to the ones collected from the value.
+   */
+  tags?: string[];
+  /**
+   * The fingerprint of the access token, e.g. from `ContentCloudTokenManager.getScope`. Responses are only shared by
+   * requests with the same scope, so clients with different tokens never see each other's responses.
+   */
+  scope?: string;
+  /**
+   * A signal to stop waiting for the value. Concurrent loads of the same key are shared, so the load itself isn't
+   * aborted and must not use the signal of a single caller.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Get the ID that identifies the cache of a space and environment.
+ *
+ * @param {string} [spaceId] The ID of the space.
+ * @param {string} [environmentId] The ID of the environment.
+ * @returns {string} The cache ID.
+ */
+export function getCacheId(spaceId?: string, environmentId?: string): string {
+  if (spaceId) {
+    if (environmentId) {
+      return `${spaceId}-${environmentId}`;
+    }
+    return spaceId;
+  }
+  if (environmentId) {
+    return environmentId;
+  }
+  return "default";
+}
+
+/**
+ * Convert a machine name like "blog_post" to the type name of the GraphQL schema like "BlogPost".
+ *
+ * @param {string} machineName The machine name.
+ * @returns {string} The type name.
+ */
+export function getGraphQLTypeName(machineName: string): string {
+  return machineName
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/**
+ * Collect the invalidation tags for all entries within the given response body.
+ *
+ * @param {unknown} value The response body.
+ * @param {Set<string>} tags The set to add the tags to.
+ * @param {Set<object>} [visited] The objects that were already visited.
+ * @returns {Set<string>} The tags.
+ */
+function collectTags(value: unknown, tags: Set<string>, visited = new Set<object>()): Set<string> {
+  if (!value || typeof value !== "object" || visited.has(value)) {
+    return tags;
+  }
+  visited.add(value);
+
+  const sys = (value as any).sys;
+  if (sys && typeof sys.id === "string" && sys.type !== "Array") {
+    tags.add(`entry:${sys.id}`);
+  }
+  if (typeof sys?.contentType?.sys?.id === "string") {
+    tags.add(`content-type:${sys.contentType.sys.id}`);
+  }
+
+  for (const property of Object.values(value)) {
+    collectTags(property, tags, visited);
+  }
+
+  return tags;
+}
+
+/**
+ * Wait for the promise, rejecting with the reason of the signal as soon as it's aborted.
+ *
+ * @param {Promise<Value>} promise The promise to wait for.
+ * @param {AbortSignal} [signal] The signal to stop waiting.
+ * @returns {Promise<Value>} The value of the promise.
+ *
+ * @template Value The type of the value.
+ */
+function raceSignal<Value>(promise: Promise<Value>, signal?: AbortSignal): Promise<Value> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * ContentCloudResponseCache caches the response bodies of GET requests and GraphQL queries.
+ * Records are namespaced by the cacheId of the client, so different spaces and environments never collide, and
+ * tagged with the IDs of all entries and content types they contain for targeted invalidation.
+ *
+ * Responses are only shared by clients using the same cache and cacheId whose access tokens grant the same scope.
+ * Requests for user data are never cached.
+ */
+export class ContentCloudResponseCache {
+  private readonly store: CacheStore;
+  private readonly pending = new Map<string, Promise<any>>();
+
+  /**
+   * Create a new instance of the ContentCloudResponseCache.
+   *
+   * @param {ResponseCacheOptions} [options] The store and default lifetime to use.
+   */
+  constructor(private readonly options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+  }
+
+  /**
+   * Return the cached value or load and cache it.
+   * Stale values are returned immediately while they are reloaded in the background.
+   * Concurrent loads of the same key are deduplicated, so the load is shared by all callers and mustn't use the signal
+   * of one of them. Pass the signal in the options instead to stop waiting for the shared load.
+   *
+   * @param {string} namespace The namespace, usually the cacheId of the client.
+   * @param {string} key The key of the request, e.g. the URL.
+   * @param {(revalidating: boolean) => Promise<Value>} load Load the value. `revalidating` is true for background reloads.
+   * @param {CacheFetchOptions} [options] Overwrite the lifetime, add tags for invalidation, the scope of the access token
+   *   and a signal to stop waiting.
+   * @returns {Promise<Value>} The cached or loaded value.
+   * @throws {unknown} The reason of the signal if it's aborted before the value is loaded.
+   *
+   * @template Value The type of the value.
+   */
+  async fetch<Value>(
+    namespace: string,
+    key: string,
+    load: (revalidating: boolean) => Promise<Value>,
+    options?: CacheFetchOptions,
+  ): Promise<Value> {
+    const cacheKey = options?.scope ? `${namespace}:${options.scope}:${key}` : `${namespace}:${key}`;
+    const record = (await this.store.get(cacheKey)) as CacheRecord<Value> | undefined;
+    const now = Date.now();
+
+    if (record && record.expiresAt > now) {
+      return record.value;
+    }
+
+    if (record && record.staleUntil > now) {
+      this.load(cacheKey, () => load(true), options).catch((error) => this.options.onError?.(error, key));
+      return record.value;
+    }
+
+    return raceSignal(
+      this.load(cacheKey, () => load(false), options),
+      options?.signal,
+    );
+  }
+
+  /**
+   * Remove all records containing the given entry.
+   *
+   * @param {string} namespace The namespace, usually the cacheId of the client.
+   * @param {string} id The ID of the entry.
+   */
+  async invalidateEntry(namespace: string, id: string): Promise<void> {
+    await this.invalidate(namespace, (record) => record.tags.includes(`entry:${id}`));
+  }
+
+  /**
+   * Remove all records containing entries of the given content type or filtered by it.
+   * Records are tagged with the ID of the content type of their entries and with the `content_type` parameter of the
+   * request as given, which is usually the machine name. GraphQL queries are tagged with the type name of the queried
+   * content type, which is derived from the given names. Pass both the ID and machine name to remove all records of
+   * the content type.
+   *
+   * @param {string} namespace The namespace, usually the cacheId of the client.
+   * @param {string | string[]} contentType The ID and/or machine name of the content type.
+   */
+  async invalidateContentType(namespace: string, contentType: string | string[]): Promise<void> {
+    const names = Array.isArray(contentType) ? contentType : [contentType];
+    const tags = [...names, ...names.map(getGraphQLTypeName)].map((name) => `content-type:${name}`);
+    await this.invalidate(namespace, (record) => record.tags.some((tag) => tags.includes(tag)));
+  }
+
+  /**
+   * Remove all records of the namespace, i.e. the whole environment.
+   *
+   * @param {string} namespace The namespace, usually the cacheId of the client.
+   */
+  async invalidateEnvironment(namespace: string): Promise<void> {
+    await this.invalidate(namespace);
+  }
+
+  /**
+   * Load the value and store it, deduplicating concurrent loads of the same key.
+   *
+   * @param {string} cacheKey The namespaced key.
+   * @param {() => Promise<Value>} load Load the value.
+   * @param {CacheFetchOptions} [options] Overwrite the lifetime and add tags for invalidation.
+   * @returns {Promise<Value>} The loaded value.
+   *
+   * @template Value The type of the value.
+   */
+  private load<Value>(cacheKey: string, load: () => Promise<Value>, options?: CacheFetchOptions): Promise<Value> {
+    const existing = this.pending.get(cacheKey);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = (async () => {
+      try {
+        const value = await load();
+
+        const now = Date.now();
+        const expiresAt = now + (options?.ttl ?? this.options.ttl ?? 60_000);
+        await this.store.set(cacheKey, {
+          value,
+          expiresAt,
+          staleUntil: expiresAt + (options?.staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0),
+          tags: [...collectTags(value, new Set(options?.tags))],
+        });
+
+        return value;
+      } finally {
+        this.pending.delete(cacheKey);
+      }
+    })();
+    this.pending.set(cacheKey, promise);
+
+    return promise;
+  }
+
+  /**
+   * Remove all records of the namespace that match the filter.
+   *
+   * @param {string} namespace The namespace to invalidate.
+   * @param {(record: CacheRecord) => boolean} [filter] Only remove records matching this filter.
+   */
+  private async invalidate(namespace: string, filter?: (record: CacheRecord) => boolean): Promise<void> {
+    for (const key of await this.store.keys(`${namespace}:`)) {
+      if (filter) {
+        const record = await this.store.get(key);
+        if (!record || !filter(record)) {
+          continue;
+        }
+      }
+
+      await this.store.delete(key);
+    }
+  }
+}
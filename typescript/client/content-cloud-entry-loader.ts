@@ -0,0 +1,195 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ClientRequestOptions } from "./content-cloud-request";
+import {
+  AssetEntry,
+  CollectionResponse,
+  ContentCloudSystemRestClient,
+  ContentEntry,
+  RestInterfaceDataTypes,
+  TagEntry,
+} from "./content-cloud-system-rest-client";
+
+/**
+ * Options for the entry loader.
+ */
+export interface EntryLoaderOptions extends ClientRequestOptions {
+  /**
+   * The maximum number of IDs to request at once. Larger batches are split into multiple requests.
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * The parameters to load a single entry by its ID.
+ */
+export interface EntryLoaderRequest {
+  id: string;
+  locale?: string;
+  include?: number;
+}
+
+/**
+ * A batch of IDs that is requested together, as all other parameters are equal.
+ */
+interface Batch {
+  type: RestInterfaceDataTypes;
+  params: Omit<EntryLoaderRequest, "id">;
+  ids: Map<string, { resolve: (entry: any) => void; reject: (error: unknown) => void }[]>;
+}
+
+/**
+ * ContentCloudEntryLoader coalesces all requests for single entries made in the same tick into one collection request
+ * per type and parameters, filtered by `sys.id[in]`. Identical requests that are still in flight are only made once.
+ * Results are not cached beyond the in-flight request, so create one loader per page render or request and use the
+ * response cache for longer-lived caching.
+ *
+ * Create a loader with `ContentCloudSystemRestClient.createEntryLoader()`.
+ */
+export class ContentCloudEntryLoader {
+  private readonly batches = new Map<string, Batch>();
+  private readonly pending = new Map<string, Promise<any>>();
+
+  /**
+   * Create a new instance of the ContentCloudEntryLoader.
+   *
+   * @param {ContentCloudSystemRestClient} client The client to make the requests with.
+   * @param {EntryLoaderOptions} [options] The maximum batch size and options for every request.
+   */
+  constructor(
+    private readonly client: ContentCloudSystemRestClient,
+    private readonly options: EntryLoaderOptions = {},
+  ) {}
+
+  /**
+   * Load a content entry by its ID.
+   *
+   * @param {EntryLoaderRequest} request The ID of the entry and optionally the locale and include depth.
+   * @returns {Promise<ContentEntryType | null>} The entry or null if it doesn't exist.
+   *
+   * @template ContentEntryType The type of the content entry, if available.
+   */
+  contentEntry<ContentEntryType extends ContentEntry = ContentEntry>(request: EntryLoaderRequest): Promise<ContentEntryType | null> {
+    return this.load("entries", request);
+  }
+
+  /**
+   * Load multiple content entries by their IDs.
+   *
+   * @param {string[]} ids The IDs of the entries.
+   * @param {Omit<EntryLoaderRequest, "id">} [params] The locale and include depth.
+   * @returns {Promise<(ContentEntryType | null)[]>} The entries in the order of the IDs, with null for missing entries.
+   *
+   * @template ContentEntryType The type of the content entry, if available.
+   */
+  contentEntries<ContentEntryType extends ContentEntry = ContentEntry>(
+    ids: string[],
+    params?: Omit<EntryLoaderRequest, "id">,
+  ): Promise<(ContentEntryType | null)[]> {
+    return Promise.all(ids.map((id) => this.contentEntry<ContentEntryType>({ ...params, id })));
+  }
+
+  /**
+   * Load an asset by its ID.
+   *
+   * @param {EntryLoaderRequest} request The ID of the asset and optionally the locale.
+   * @returns {Promise<AssetEntry | null>} The asset or null if it doesn't exist.
+   */
+  assetEntry(request: EntryLoaderRequest): Promise<AssetEntry | null> {
+    return this.load("assets", request);
+  }
+
+  /**
+   * Load a tag by its ID.
+   *
+   * @param {EntryLoaderRequest} request The ID of the tag and optionally the locale.
+   * @returns {Promise<TagEntry | null>} The tag or null if it doesn't exist.
+   */
+  tagEntry(request: EntryLoaderRequest): Promise<TagEntry | null> {
+    return this.load("tags", request);
+  }
+
+  /**
+   * Queue the ID to be requested with the next batch of the same type and parameters.
+   *
+   * @param {RestInterfaceDataTypes} type The type of the entry.
+   * @param {EntryLoaderRequest} request The ID and parameters of the request.
+   * @returns {Promise<EntryType | null>} The entry or null if it doesn't exist.
+   *
+   * @template EntryType The type of the entry.
+   */
+  private load<EntryType>(type: RestInterfaceDataTypes, request: EntryLoaderRequest): Promise<EntryType | null> {
+    const { id, ...params } = request;
+    const batchKey = JSON.stringify([type, params.locale ?? null, params.include ?? null]);
+    const requestKey = `${batchKey}:${id}`;
+
+    const existing = this.pending.get(requestKey);
+    if (existing) {
+      return existing;
+    }
+
+    let batch = this.batches.get(batchKey);
+    if (!batch) {
+      const newBatch: Batch = { type, params, ids: new Map() };
+      this.batches.set(batchKey, newBatch);
+      setTimeout(() => {
+        this.batches.delete(batchKey);
+        this.dispatch(newBatch);
+      }, 0);
+      batch = newBatch;
+    }
+
+    const promise = new Promise<EntryType | null>((resolve, reject) => {
+      const callbacks = batch.ids.get(id) ?? [];
+      callbacks.push({ resolve, reject });
+      batch.ids.set(id, callbacks);
+    }).finally(() => this.pending.delete(requestKey));
+    this.pending.set(requestKey, promise);
+
+    return promise;
+  }
+
+  /**
+   * Request all IDs of the batch, split into chunks of the maximum batch size, and resolve the callbacks.
+   *
+   * @param {Batch} batch The batch to request.
+   */
+  private async dispatch(batch: Batch) {
+    const ids = [...batch.ids.keys()];
+    const maxBatchSize = this.options.maxBatchSize ?? 100;
+
+    const params: Record<string, unknown> = {};
+    if (batch.params.locale) {
+      params.locale = batch.params.locale;
+    }
+    if (typeof batch.params.include === "number") {
+      params.include = batch.params.include;
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += maxBatchSize) {
+      chunks.push(ids.slice(i, i + maxBatchSize));
+    }
+
+    await Promise.all(
+      chunks.map(async (chunk) => {
+        try {
+          const response = await this.client.query<CollectionResponse<{ sys: { id: string } }>>(
+            batch.type,
+            undefined,
+            { ...params, "sys.id[in]": chunk.join(","), limit: chunk.length },
+            this.options,
+          );
+
+          const entries = new Map(response.items.map((entry) => [entry.sys.id, entry]));
+          for (const id of chunk) {
+            batch.ids.get(id)!.forEach(({ resolve }) => resolve(entries.get(id) ?? null));
+          }
+        } catch (error) {
+          for (const id of chunk) {
+            batch.ids.get(id)!.forEach(({ reject }) => reject(error));
+          }
+        }
+      }),
+    );
+  }
+}
@@ -0,0 +1,324 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A single error as returned in the `errors` array of a GraphQL response.
+ */
+export interface GraphQLResponseError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Details about a failed request that are passed to the error constructors.
+ */
+export interface ContentCloudApiErrorDetails {
+  /**
+   * The HTTP status code of the response. 0 if no response was received.
+   */
+  status: number;
+  /**
+   * The HTTP method of the request, e.g. "GET" or "POST".
+   */
+  method: string;
+  /**
+   * The full URL of the request, including query parameters.
+   */
+  url: string;
+  /**
+   * The parsed JSON body of the response. If the body isn't valid JSON, this is the raw text instead.
+   */
+  body?: unknown;
+  /**
+   * The headers of the response.
+   */
+  headers?: Headers;
+  /**
+   * The errors returned by the GraphQL API, if any.
+   */
+  errors?: GraphQLResponseError[];
+  /**
+   * The partial data returned by the GraphQL API alongside the errors, if any.
+   */
+  data?: Record<string, any> | null;
+}
+
+/**
+ * Extract a human-readable message from the response details.
+ *
+ * @param {ContentCloudApiErrorDetails} details The details of the failed request.
+ * @returns {string} The message to use for the error.
+ */
+function getErrorMessage(details: ContentCloudApiErrorDetails): string {
+  if (details.errors?.length) {
+    return details.errors[0]!.message;
+  }
+
+  const body = details.body as any;
+  if (typeof body === "string" && body) {
+    return body;
+  }
+  if (body && typeof body === "object") {
+    if (typeof body.message === "string") {
+      return body.message;
+    }
+    if (typeof body.error === "string") {
+      return body.error;
+    }
+    if (Array.isArray(body.errors) && typeof body.errors[0]?.message === "string") {
+      return body.errors[0].message;
+    }
+  }
+
+  return `${details.method} ${details.url} failed with status ${details.status}.`;
+}
+
+/**
+ * Parse the value of a Retry-After header, which is either a number of seconds or an HTTP date.
+ *
+ * @param {string | null} [value] The value of the header.
+ * @returns {number | undefined} The number of seconds to wait or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1_000));
+}
+
+/**
+ * ContentCloudApiError is thrown by all clients whenever a request to the Content Cloud fails, either because the
+ * response has a non-2xx status code or because the GraphQL API returned errors without data.
+ * Use the subclasses to handle specific failures, e.g. `error instanceof ContentCloudNotFoundError`.
+ */
+export class ContentCloudApiError extends Error {
+  /**
+   * The HTTP status code of the response. 0 if no response was received.
+   */
+  public readonly status: number;
+  /**
+   * The HTTP method of the request.
+   */
+  public readonly method: string;
+  /**
+   * The full URL of the request.
+   */
+  public readonly url: string;
+  /**
+   * The parsed JSON body of the response or the raw text if the body isn't valid JSON.
+   */
+  public readonly body?: unknown;
+  /**
+   * The headers of the response.
+   */
+  public readonly headers?: Headers;
+  /**
+   * The errors returned by the GraphQL API, if any.
+   */
+  public readonly errors?: GraphQLResponseError[];
+  /**
+   * The partial data returned by the GraphQL API, if any.
+   */
+  public readonly data?: Record<string, any> | null;
+
+  /**
+   * Create a new instance of the ContentCloudApiError.
+   *
+   * @param {ContentCloudApiErrorDetails} details The details of the failed request.
+   * @param {string} [message] The error message. Will be taken from the response body if not provided.
+   */
+  constructor(details: ContentCloudApiErrorDetails, message?: string) {
+    super(message ?? getErrorMessage(details));
+
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.url = details.url;
+    this.body = details.body;
+    this.headers = details.headers;
+    this.errors = details.errors;
+    this.data = details.data;
+  }
+
+  /**
+   * Create the matching error for a failed response. The response body is consumed.
+   *
+   * @param {Response} response The failed response.
+   * @param {string} method The HTTP method of the request.
+   * @param {string} url The full URL of the request.
+   * @returns {Promise<ContentCloudApiError>} The error to throw.
+   */
+  static async fromResponse(response: Response, method: string, url: string): Promise<ContentCloudApiError> {
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON, so keep the raw text.
+    }
+
+    return createContentCloudApiError({
+      status: response.status,
+      method,
+      url,
+      body,
+      headers: response.headers,
+      errors: Array.isArray(body?.errors) ? body.errors : undefined,
+      data: body && typeof body === "object" ? body.data : undefined,
+    });
+  }
+}
+
+/**
+ * Thrown if the access token is missing, invalid or expired (401) or lacks the permissions for the request (403).
+ */
+export class ContentCloudAuthenticationError extends ContentCloudApiError {}
+
+/**
+ * Thrown if the requested entry or endpoint doesn't exist (404).
+ */
+export class ContentCloudNotFoundError extends ContentCloudApiError {}
+
+/**
+ * Thrown if a write was rejected because the entry was changed since the given revision (409 or 412).
+ * Load the entry again, reapply the changes and retry with the new revision.
+ */
+export class ContentCloudConflictError extends ContentCloudApiError {}
+
+/**
+ * Thrown if too many requests were made (429).
+ */
+export class ContentCloudRateLimitError extends ContentCloudApiError {
+  /**
+   * The number of seconds to wait before retrying, as provided by the Retry-After header.
+   */
+  public get retryAfter(): number | undefined {
+    return parseRetryAfter(this.headers?.get("Retry-After"));
+  }
+}
+
+/**
+ * Thrown if the request was rejected as invalid (400 or 422), or if the GraphQL API returned errors without any data.
+ */
+export class ContentCloudValidationError extends ContentCloudApiError {}
+
+/**
+ * Thrown if the request was aborted through the AbortSignal provided by the caller, before a response was received.
+ * The `status` is always 0.
+ */
+export class ContentCloudAbortError extends ContentCloudApiError {
+  /**
+   * The reason provided to `AbortController.abort()`, if any.
+   */
+  public readonly reason?: unknown;
+
+  /**
+   * Create a new instance of the ContentCloudAbortError.
+   *
+   * @param {string} method The HTTP method of the request.
+   * @param {string} url The full URL of the request.
+   * @param {unknown} [reason] The reason the request was aborted.
+   * @param {string} [message] The error message.
+   */
+  constructor(method: string, url: string, reason?: unknown, message = `${method} ${url} was aborted.`) {
+    super({ status: 0, method, url }, message);
+
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown if the request didn't receive and read a response within the configured timeout.
+ */
+export class ContentCloudTimeoutError extends ContentCloudAbortError {
+  /**
+   * Create a new instance of the ContentCloudTimeoutError.
+   *
+   * @param {string} method The HTTP method of the request.
+   * @param {string} url The full URL of the request.
+   * @param {number} timeout The timeout in milliseconds that was exceeded.
+   */
+  constructor(
+    method: string,
+    url: string,
+    public readonly timeout: number,
+  ) {
+    super(method, url, undefined, `${method} ${url} timed out after ${timeout}ms.`);
+  }
+}
+
+/**
+ * Thrown if a downloaded asset file doesn't match the size or hash of the asset.
+ */
+export class ContentCloudIntegrityError extends ContentCloudApiError {
+  /**
+   * Create a new instance of the ContentCloudIntegrityError.
+   *
+   * @param {ContentCloudApiErrorDetails} details The details of the download request.
+   * @param {"size" | "hash"} check The check that failed.
+   * @param {string | number} expected The size or hash of the asset.
+   * @param {string | number} actual The size or hash of the downloaded content.
+   */
+  constructor(
+    details: ContentCloudApiErrorDetails,
+    public readonly check: "size" | "hash",
+    public readonly expected: string | number,
+    public readonly actual: string | number,
+  ) {
+    super(details, `The ${check} of the downloaded file ${details.url} doesn't match: expected ${expected}, got ${actual}.`);
+  }
+}
+
+/**
+ * Thrown if a downloaded asset file should be verified, but the hash of the asset can't be checked, e.g. because it's
+ * an MD5 hash, which Web Crypto doesn't support, or it's neither hex nor base64 encoded.
+ */
+export class ContentCloudUnverifiableError extends ContentCloudApiError {
+  /**
+   * Create a new instance of the ContentCloudUnverifiableError.
+   *
+   * @param {ContentCloudApiErrorDetails} details The details of the download request.
+   * @param {string} hash The hash of the asset that can't be checked.
+   */
+  constructor(
+    details: ContentCloudApiErrorDetails,
+    public readonly hash: string,
+  ) {
+    super(details, `The downloaded file ${details.url} can't be verified, as the format of its hash "${hash}" isn't supported.`);
+  }
+}
+
+/**
+ * Create the matching error class for the given details based on the status code.
+ *
+ * @param {ContentCloudApiErrorDetails} details The details of the failed request.
+ * @param {string} [message] The error message. Will be taken from the response body if not provided.
+ * @returns {ContentCloudApiError} The error to throw.
+ */
+export function createContentCloudApiError(details: ContentCloudApiErrorDetails, message?: string): ContentCloudApiError {
+  switch (details.status) {
+    case 401:
+    case 403:
+      return new ContentCloudAuthenticationError(details, message);
+    case 404:
+      return new ContentCloudNotFoundError(details, message);
+    case 409:
+    case 412:
+      return new ContentCloudConflictError(details, message);
+    case 429:
+      return new ContentCloudRateLimitError(details, message);
+    case 400:
+    case 422:
+      return new ContentCloudValidationError(details, message);
+    default:
+      return new ContentCloudApiError(details, message);
+  }
+}
@@ -1,3 +1,11 @@
+import { ContentCloudResponseCache, getCacheId } from "./content-cloud-cache";
+import { ContentCloudAbortError, ContentCloudApiError, ContentCloudValidationError } from "./content-cloud-errors";
+import { ContentCloudLocaleService, isEmptyFieldValue, mergeFallbackFields } from "./content-cloud-locales";
+import { CollectionPage, PageRequest, PaginatedCollection, PaginationOptions } from "./content-cloud-pagination";
+import { ClientRequestOptions, ContentCloudMiddleware, RetryOptions, sendRequest } from "./content-cloud-request";
+import { ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+import { ContentCloudSchemaValidationError, ContentCloudSchemaValidator, ValidationIssue } from "./content-cloud-validator";
+import { AccessTokenSource, ContentCloudTokenManager } from "./content-cloud-token-manager";
 import { CONTENT_USER_DATA_ENTRY_TYPES, ContentTypes, ContentUserDataTypes, INDEPENDENT_ENTRY_TYPES } from "./graphql-schema";
 
 /**
@@ -36,9 +44,10 @@ export interface GraphQLClientOptions {
    */
   baseUrl: string;
   /**
-   * The access token to use for authentication.
+   * The access token to use for authentication, a function providing it or a token manager shared with other clients,
+   * e.g. `restClient.tokens`. Tokens from a function are cached until shortly before they expire.
    */
-  accessToken?: string;
+  accessToken?: AccessTokenSource;
   /**
    * The ID of the space to use for the GraphQL requests.
    */
@@ -52,6 +61,59 @@ export interface GraphQLClientOptions {
    * If not provided, the native fetch will be used.
    */
   fetch?: typeof fetch;
+  /**
+   * How to retry failed requests. Uses the DEFAULT_RETRY_OPTIONS if not provided. Pass `false` to disable retries.
+   * Queries are always retried on transient failures, mutations only if they are idempotent or were rate limited.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * The default timeout for requests in milliseconds, including all retries. Requests won't time out if not provided.
+   */
+  timeout?: number;
+  /**
+   * The cache to use for queries. Mutations are never cached. Responses won't be cached if not provided.
+   * Share the cache with the REST client to invalidate responses of both clients at once.
+   */
+  cache?: ContentCloudResponseCache;
+  /**
+   * The locale service of a REST client, e.g. `restClient.system.locales`.
+   * Required to use `localeFallback` to resolve the fallback chain of the requested locale and the localized fields.
+   */
+  locales?: ContentCloudLocaleService;
+  /**
+   * The REST client to look up content types with, e.g. `restClient.system`. Used by `invalidateCache` to remove the
+   * responses of a content type given by its ID, and to load the content types for `validate: true`. Only the given
+   * name is invalidated if not provided.
+   */
+  system?: ContentCloudSystemRestClient;
+  /**
+   * Validate data against the content types of the space, which are loaded once on first use with the `system`
+   * client, e.g. during development. User data is rejected with a ContentCloudSchemaValidationError before it's sent.
+   * Entries of query responses that don't match their content type are reported with `onValidationIssues`, or
+   * rejected with a ContentCloudSchemaValidationError if it isn't provided. Pass a validator to reuse loaded content
+   * types. Disabled by default.
+   */
+  validate?: boolean | ContentCloudSchemaValidator;
+  /**
+   * Called with the issues of a query response that doesn't match its content type, e.g. to log or collect them
+   * instead of failing the request.
+   */
+  onValidationIssues?: (issues: ValidationIssue[], contentType?: string) => void;
+  /**
+   * Load drafts from the preview service instead of published content. Queries are sent to the previewBaseUrl and
+   * are never cached, and `sys.isPublished` is selected for every entry to tell drafts apart. The access token
+   * requires the `permission:preview` scope and the `service:preview` service.
+   */
+  preview?: boolean;
+  /**
+   * The base URL of the preview GraphQL API, excluding the `/graphql` endpoint. Required in preview mode.
+   */
+  previewBaseUrl?: string;
+  /**
+   * The middleware to run for every request, e.g. to add custom headers, tracing IDs or to log requests.
+   * Share it with the REST client to handle the requests of both clients the same way.
+   */
+  middleware?: ContentCloudMiddleware[];
 }
 
 export type GraphQLSelect<Type extends object> = {
@@ -78,6 +140,16 @@ export type GraphQLSelected<Type extends object, SelectedType extends GraphQLSel
         : Type[K]
     : never;
 };
+/**
+ * The type of the items of a selected collection response.
+ */
+type GraphQLSelectedItem<Selected> = Selected extends { items: Array<infer Item> } ? Item : never;
+/**
+ * A selected collection response that includes the pagination metadata.
+ */
+type GraphQLSelectedPage<Type extends object, SelectedType extends GraphQLSelect<Type>> = GraphQLSelected<Type, SelectedType> &
+  CollectionPage<GraphQLSelectedItem<GraphQLSelected<Type, SelectedType>>>;
+
 function getSelectedFields(select: GraphQLSelect<Record<string, any>>): string {
   return Object.entries(select)
     .map(([key, value]) => {
@@ -89,6 +161,42 @@ function getSelectedFields(select: GraphQLSelect<Record<string, any>>): string {
     .join("\n");
 }
 
+/**
+ * Check whether any of the given fields of the entry are empty.
+ *
+ * @param {Record<string, any>} entry The entry to check.
+ * @param {string[]} fields The localized fields.
+ * @returns {boolean} Whether any of the fields is empty.
+ */
+function hasEmptyFields(entry: Record<string, any>, fields: string[]): boolean {
+  return fields.some((field) => field in entry && isEmptyFieldValue(entry[field]));
+}
+
+/**
+ * Fill the given fields of the entry that are empty with the values of the same entry in a fallback locale.
+ * Fields that weren't selected are never added.
+ *
+ * @param {Entry} entry The entry in the requested locale.
+ * @param {Record<string, any> | undefined} fallback The entry in the fallback locale.
+ * @param {string[]} fields The localized fields.
+ * @returns {Entry} A merged copy of the entry.
+ */
+function mergeFallbackEntry<Entry extends Record<string, any>>(
+  entry: Entry,
+  fallback: Record<string, any> | undefined,
+  fields: string[],
+): Entry {
+  if (!fallback) {
+    return entry;
+  }
+
+  return mergeFallbackFields(
+    entry,
+    fallback,
+    fields.filter((field) => field in entry),
+  );
+}
+
 /**
  * Base class for GraphQL clients that handles the core GraphQL functionality.
  * This class uses native fetch and expects a Proxy on top to handle GraphQL operations.
@@ -106,26 +214,129 @@ class ContentCloudGraphQLClient {
     return this.options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args));
   }
 
+  /**
+   * Provides the access token for all requests, if any. Pass it to other clients to share the token.
+   */
+  public readonly tokens?: ContentCloudTokenManager;
+
+  /**
+   * The validator, loaded on first use if validation is enabled.
+   */
+  private validator?: Promise<ContentCloudSchemaValidator>;
+
   /**
    * Create a new instance of the ContentCloudGraphQLClient.
    *
    * @param {GraphQLClientOptions} options The options to configure the client.
    */
-  constructor(private readonly options: GraphQLClientOptions) {}
+  constructor(private readonly options: GraphQLClientOptions) {
+    if (options.preview && !options.previewBaseUrl) {
+      throw new Error("previewBaseUrl is required in preview mode.");
+    }
+
+    this.tokens = ContentCloudTokenManager.from(options.accessToken);
+  }
+
+  /**
+   * The URL of the GraphQL endpoint of the live or preview service.
+   */
+  private get endpoint(): string {
+    return `${this.options.preview ? this.options.previewBaseUrl : this.options.baseUrl}/graphql`;
+  }
+
+  /**
+   * Whether the client loads drafts from the preview service.
+   */
+  get preview(): boolean {
+    return !!this.options.preview;
+  }
+
+  /**
+   * Create a copy of this client that loads drafts from the preview service, e.g. to render a draft preview of your
+   * website. All other options are kept.
+   *
+   * @param {AccessTokenSource} accessToken The preview token with the `permission:preview` scope.
+   * @param {string} [previewBaseUrl] The base URL of the preview GraphQL API, if it isn't configured yet.
+   * @returns {ContentCloudGraphQLClient & TypedClient} The preview client.
+   */
+  withPreview(accessToken: AccessTokenSource, previewBaseUrl?: string): ContentCloudGraphQLClient & TypedClient {
+    return createContentCloudGraphQLClient({
+      ...this.options,
+      accessToken,
+      preview: true,
+      previewBaseUrl: previewBaseUrl ?? this.options.previewBaseUrl,
+    });
+  }
+
+  /**
+   * Add `sys.isPublished` to the selection of an entry in preview mode.
+   *
+   * @param {GraphQLSelect<Record<string, any>>} select The fields to select from the entry.
+   * @returns {GraphQLSelect<Record<string, any>>} The fields including the published state.
+   */
+  private selectPublishedState<Select extends GraphQLSelect<Record<string, any>>>(select: Select): Select {
+    if (!this.options.preview) {
+      return select;
+    }
+    return { ...select, sys: { ...(select as Record<string, any>).sys, isPublished: 1 } };
+  }
+
+  /**
+   * The cache ID is used to identify the cache for the space and environment.
+   */
+  get cacheId(): string {
+    return getCacheId(this.options.spaceId, this.options.environmentId);
+  }
+
+  /**
+   * Remove cached responses of this space and environment. If no target is given, all responses are removed.
+   * Does nothing if the client doesn't use a cache.
+   *
+   * @param {object} [target]
+   * @param {string} [target.entryId] Only remove responses that contain the entry with this ID.
+   * @param {string} [target.contentType] Only remove responses of queries for this content type. Accepts the machine
+   *   name, or the ID if the client has the `system` option to look up the machine name.
+   */
+  async invalidateCache(target?: { entryId?: string; contentType?: string }): Promise<void> {
+    const cache = this.options.cache;
+    if (!cache) {
+      return;
+    }
+
+    if (target?.entryId) {
+      await cache.invalidateEntry(this.cacheId, target.entryId);
+    }
+    if (target?.contentType) {
+      await cache.invalidateContentType(
+        this.cacheId,
+        this.options.system ? await this.options.system.getContentTypeNames(target.contentType) : target.contentType,
+      );
+    }
+    if (!target?.entryId && !target?.contentType) {
+      await cache.invalidateEnvironment(this.cacheId);
+    }
+  }
 
   /**
    * Execute a GraphQL query or mutation.
    *
    * @param {string} query The GraphQL query string
    * @param {Record<string, any>} variables The variables for the query
+   * @param {string} [queryName] The name of the query to return the data for.
+   * @param {ClientRequestOptions} [options] Options for this request. Queries are idempotent by default, mutations aren't.
+   *   Queries are served from the cache if the client uses one.
+   * @param {string[]} [tags] Tags to invalidate the cached response with, in addition to the IDs of the entries it contains.
    * @returns {Promise<any>} The response data
+   * @throws {ContentCloudApiError} If the request fails or the response doesn't contain any data.
    */
   async query<ResponseData extends Record<string, any>>(
     query: string,
     variables: Record<string, any> = {},
     queryName?: string,
+    options?: ClientRequestOptions,
+    tags?: string[],
   ): Promise<ResponseData> {
-    let url = `${this.options.baseUrl}/graphql`;
+    let url = this.endpoint;
     if (variables.userDataTypes) {
       // If userDataTypes are provided, append them to the URL as a query parameter
       url += `?user_data_types=${variables.userDataTypes.join(",")}`;
@@ -134,51 +345,103 @@ class ContentCloudGraphQLClient {
       variables = { ...variables };
       delete variables.userDataTypes;
     }
-    const response = await this.fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(this.options.accessToken
-          ? {
-              Authorization: `Bearer ${this.options.accessToken}`,
-            }
-          : {}),
-      },
-      body: JSON.stringify({
-        query,
-        variables,
-      }),
+    const body = JSON.stringify({
+      query,
+      variables,
     });
+    const mutation = /^\s*mutation\b/.test(query);
 
-    if (!response.ok) {
-      throw new Error(await response.text());
-    }
+    // Responses that include user data are specific to the user and drafts change with every edit, so neither is cached.
+    const cache = this.options.preview ? undefined : this.options.cache;
+    const data =
+      cache && !mutation && options?.cache !== false && !url.includes("user_data")
+        ? await cache
+            .fetch(
+              this.cacheId,
+              `${url}#${body}`,
+              // The load is shared with concurrent queries, so it must not be cancelled by the signal of this caller.
+              () => this.execute(url, body, queryName, { ...options, signal: undefined }, true),
+              { ...options?.cache, tags, scope: await this.tokens?.getScope(), signal: options?.signal },
+            )
+            .catch((error) => {
+              if (options?.signal?.aborted && error === options.signal.reason) {
+                throw new ContentCloudAbortError("POST", url, error);
+              }
+              throw error;
+            })
+        : await this.execute(url, body, queryName, options, options?.idempotent ?? !mutation);
+
+    return (queryName ? data[queryName] : data) as ResponseData;
+  }
+
+  /**
+   * Send a GraphQL request and return the data of the response.
+   *
+   * @param {string} url The URL of the GraphQL endpoint.
+   * @param {string} body The serialized query and variables.
+   * @param {string | undefined} queryName The name of the query that must be part of the data.
+   * @param {ClientRequestOptions | undefined} options Options for this request.
+   * @param {boolean} idempotent Whether the request is safe to retry.
+   * @returns {Promise<Record<string, any>>} The data of the response.
+   * @throws {ContentCloudApiError} If the request fails or the response doesn't contain any data.
+   */
+  private async execute(
+    url: string,
+    body: string,
+    queryName: string | undefined,
+    options: ClientRequestOptions | undefined,
+    idempotent: boolean,
+  ): Promise<Record<string, any>> {
+    const response = await sendRequest(
+      {
+        method: "POST",
+        url,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body,
+      },
+      {
+        fetch: this.fetch,
+        tokens: this.tokens,
+        retry: options?.retry ?? this.options.retry,
+        idempotent,
+        signal: options?.signal,
+        timeout: options?.timeout ?? this.options.timeout,
+        middleware: this.options.middleware,
+      },
+    );
 
     const result = await response.json();
+    const details = {
+      status: response.status,
+      method: "POST",
+      url,
+      body: result,
+      headers: response.headers,
+      errors: result.errors,
+      data: result.data,
+    };
 
     if (result.errors) {
       console.error("GraphQL Errors:", result.errors);
 
       if (!result.data) {
-        throw new Error(result.errors[0].message);
+        throw new ContentCloudValidationError(details);
       }
     }
 
     if (!result.data) {
       console.error("GraphQL Response without data:", result);
 
-      throw new Error("GraphQL response does not contain data.");
+      throw new ContentCloudApiError(details, "GraphQL response does not contain data.");
     }
 
-    if (queryName) {
-      if (!result.data[queryName]) {
-        console.error(`GraphQL Response does not contain data for query "${queryName}":`, result.data);
-
-        throw new Error(`GraphQL response does not contain data for query "${queryName}".`);
-      }
+    if (queryName && !result.data[queryName]) {
+      console.error(`GraphQL Response does not contain data for query "${queryName}":`, result.data);
 
-      return result.data[queryName];
+      throw new ContentCloudApiError(details, `GraphQL response does not contain data for query "${queryName}".`);
     }
 
     return result.data;
@@ -193,24 +456,87 @@ class ContentCloudGraphQLClient {
    * @param {keyof ContentTypes} contentType The content type to fetch the collection for.
    * @param {GraphQLSelect<ResponseData>} select The fields to select from the collection.
    * @param {GraphQLParams} [params] Optional parameters for the query, such as locale, skip, limit, where, search, and order.
+   *   Pass `localeFallback` to fill empty localized fields from the fallback locales.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @return {Promise<ResponseData>} A promise that resolves to the collection response data.
    */
-  collection<ResponseData extends CollectionResponse<Record<string, any>>, Select extends GraphQLSelect<ResponseData>>(
+  async collection<ResponseData extends CollectionResponse<Record<string, any>>, Select extends GraphQLSelect<ResponseData>>(
     contentType: keyof ContentTypes,
     select: Select,
     params?: GraphQLParams,
+    options?: ClientRequestOptions,
   ): Promise<GraphQLSelected<ResponseData, Select>> {
     const queryName = contentType.charAt(0).toLowerCase() + contentType.slice(1) + "Collection";
-    return this.query<GraphQLSelected<ResponseData, Select>>(
-      `
+    const { localeFallback, ...variables } = params ?? {};
+    const items = (select as Record<string, any>).items && this.selectPublishedState((select as Record<string, any>).items);
+    if (items) {
+      select = { ...select, items };
+    }
+    const run = (locale: string | undefined, selected: GraphQLSelect<Record<string, any>>) =>
+      this.query<GraphQLSelected<ResponseData, Select>>(
+        `
 query ${queryName}($locale: String, $skip: Int, $limit: Int, $where: ${contentType}Filter, $search: String, $order: [${contentType}Order!]) {
   ${queryName}(locale: $locale, skip: $skip, limit: $limit, where: $where, search: $search, order: $order) {
-${getSelectedFields(select)}
+${getSelectedFields(selected)}
   }
 }
 `,
-      params,
-      queryName,
+        { ...variables, locale },
+        queryName,
+        options,
+        [`content-type:${contentType}`],
+      );
+
+    const fallbacks = await this.getFallbackLocales(variables.locale, localeFallback, options);
+    if (!fallbacks.length) {
+      return this.checkResponse(contentType, await run(variables.locale, select), true, options);
+    }
+
+    // The same page is requested in the fallback locales and the entries are matched by their ID, so it must be selected.
+    const selectWithId = { ...select, items: { ...items, sys: { ...items?.sys, id: 1 } } };
+
+    const fields = await this.getLocalizedFields(contentType, options);
+    let response: Record<string, any> = await run(variables.locale, selectWithId);
+    for (const fallback of fallbacks) {
+      if (!response.items?.some((item: any) => hasEmptyFields(item, fields))) {
+        break;
+      }
+
+      const fallbackResponse: Record<string, any> = await run(fallback, selectWithId);
+      const byId = new Map<string, Record<string, any>>(fallbackResponse.items.map((item: any) => [item.sys.id, item]));
+      response = { ...response, items: response.items.map((item: any) => mergeFallbackEntry(item, byId.get(item.sys.id), fields)) };
+    }
+
+    return this.checkResponse(contentType, response as GraphQLSelected<ResponseData, Select>, true, options);
+  }
+
+  /**
+   * Iterate over all entries of a specific content type, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   * `skip`, `limit` and `total` are always requested in addition to the selected fields.
+   *
+   * @template ResponseData The type of the response data.
+   * @template Select The type of the fields to select from the collection. Must include `items`.
+   *
+   * @param {keyof ContentTypes} contentType The content type to iterate over.
+   * @param {GraphQLSelect<ResponseData>} select The fields to select from the collection.
+   * @param {GraphQLParams} [params] Optional parameters for the query. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   * @return {PaginatedCollection} The iterable collection.
+   */
+  collectionIterator<ResponseData extends CollectionResponse<Record<string, any>>, Select extends GraphQLSelect<ResponseData>>(
+    contentType: keyof ContentTypes,
+    select: Select,
+    params?: GraphQLParams,
+    options?: PaginationOptions,
+  ): PaginatedCollection<GraphQLSelectedItem<GraphQLSelected<ResponseData, Select>>, GraphQLSelectedPage<ResponseData, Select>> {
+    const pageSelect = { ...select, skip: 1, limit: 1, total: 1 } as Select;
+    return new PaginatedCollection(
+      (page: PageRequest) =>
+        this.collection<ResponseData, Select>(contentType, pageSelect, { ...params, ...page }, options) as Promise<
+          GraphQLSelectedPage<ResponseData, Select>
+        >,
+      { skip: params?.skip, limit: params?.limit, ...options },
     );
   }
 
@@ -223,30 +549,165 @@ ${getSelectedFields(select)}
    * @param {keyof ContentTypes} contentType The content type to fetch the entry for.
    * @param {GraphQLSelect<ResponseData>} select The fields to select from the entry.
    * @param {GraphQLParams} [params] Optional parameters for the query, such as locale, id, revisionId, uuid, customId, and slug.
-   *   Must include at least one filter parameter to identify the entry.
+   *   Must include at least one filter parameter to identify the entry. Pass `localeFallback` to fill empty localized fields from the fallback locales.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @return {Promise<ResponseData>} A promise that resolves to the entry response data.
    */
-  entry<ResponseData extends Record<string, any>, Select extends GraphQLSelect<ResponseData>>(
+  async entry<ResponseData extends Record<string, any>, Select extends GraphQLSelect<ResponseData>>(
     contentType: keyof ContentTypes,
     select: Select,
     params?: GraphQLParams,
+    options?: ClientRequestOptions,
   ): Promise<GraphQLSelected<ResponseData, Select>> {
     const queryName = contentType.charAt(0).toLowerCase() + contentType.slice(1);
-    return this.query<GraphQLSelected<ResponseData, Select>>(
-      `
+    const { localeFallback, ...variables } = params ?? {};
+    select = this.selectPublishedState(select);
+    const run = (locale: string | undefined) =>
+      this.query<GraphQLSelected<ResponseData, Select>>(
+        `
 query ${queryName}($locale: String, $id: String, $revisionId: String, $uuid: String, $customId: String, $slug: String) {
   ${queryName}(locale: $locale, id: $id, revisionId: $revisionId, uuid: $uuid, customId: $customId, slug: $slug) {
 ${getSelectedFields(select)}
   }
 }
 `,
-      params,
-      queryName,
-    );
+        { ...variables, locale },
+        queryName,
+        options,
+        [`content-type:${contentType}`],
+      );
+
+    let entry = await run(variables.locale);
+    const fallbacks = await this.getFallbackLocales(variables.locale, localeFallback, options);
+    if (!entry || !fallbacks.length) {
+      return this.checkResponse(contentType, entry, false, options);
+    }
+
+    const fields = await this.getLocalizedFields(contentType, options);
+    for (const fallback of fallbacks) {
+      if (!entry || !hasEmptyFields(entry, fields)) {
+        break;
+      }
+
+      entry = mergeFallbackEntry(entry, await run(fallback), fields);
+    }
+
+    return this.checkResponse(contentType, entry, false, options);
+  }
+
+  /**
+   * Get the locales to fall back to for the requested locale.
+   *
+   * @param {string | undefined} locale The requested locale.
+   * @param {boolean | string[] | undefined} localeFallback The fallback locales or true to use the fallback chain of the locale.
+   * @param {ClientRequestOptions} [options] Options for the requests to load the locales.
+   * @returns {Promise<string[]>} The locales to fall back to in order, excluding the requested locale.
+   */
+  private async getFallbackLocales(
+    locale: string | undefined,
+    localeFallback: boolean | string[] | undefined,
+    options?: ClientRequestOptions,
+  ): Promise<string[]> {
+    if (Array.isArray(localeFallback)) {
+      return localeFallback;
+    }
+    if (!localeFallback || !locale) {
+      return [];
+    }
+    if (!this.options.locales) {
+      throw new Error(`localeFallback requires the locales option to resolve the fallback chain of "${locale}".`);
+    }
+
+    return (await this.options.locales.getFallbackChain(locale, options)).slice(1);
+  }
+
+  /**
+   * Get the validator if validation is enabled, loading the content types with the `system` client on first use.
+   *
+   * @param {ClientRequestOptions} [options] Options for the requests to load the content types.
+   * @returns {Promise<ContentCloudSchemaValidator | undefined>} The validator or undefined if validation is disabled.
+   */
+  private async getValidator(options?: ClientRequestOptions): Promise<ContentCloudSchemaValidator | undefined> {
+    const validate = this.options.validate;
+    if (!validate) {
+      return undefined;
+    }
+    if (validate instanceof ContentCloudSchemaValidator) {
+      return validate;
+    }
+    if (!this.options.system) {
+      throw new Error("validate requires the system option to load the content types.");
+    }
+
+    if (!this.validator) {
+      this.validator = ContentCloudSchemaValidator.load(this.options.system, options);
+      // Allow retrying if loading failed.
+      this.validator.catch(() => (this.validator = undefined));
+    }
+    return this.validator;
+  }
+
+  /**
+   * Check the entries of a query response against their content type and report the issues with `onValidationIssues`.
+   * Only the selected fields are checked.
+   *
+   * @param {keyof ContentTypes} contentType The queried content type.
+   * @param {Data} response The entry or collection response.
+   * @param {boolean} collection Whether the response is a collection with the entries as `items`.
+   * @param {ClientRequestOptions} [options] Options for the requests to load the content types.
+   * @returns {Promise<Data>} The unchanged response.
+   * @throws {ContentCloudSchemaValidationError} If the response doesn't match and `onValidationIssues` isn't provided.
+   *
+   * @template Data The type of the response.
+   */
+  private async checkResponse<Data>(
+    contentType: keyof ContentTypes,
+    response: Data,
+    collection: boolean,
+    options?: ClientRequestOptions,
+  ): Promise<Data> {
+    const validator = await this.getValidator(options);
+    if (!validator || !response) {
+      return response;
+    }
+
+    const entries: [(string | number)[], Record<string, any>][] = collection
+      ? ((response as Record<string, any>).items ?? []).map((item: Record<string, any>, index: number) => [["items", index], item])
+      : [[[], response as Record<string, any>]];
+    const issues = entries.flatMap(([path, entry]) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { sys, __typename, ...fields } = entry;
+      return validator.validateFields(contentType, fields, { partial: true, graphql: true, path }).issues;
+    });
+    if (!issues.length) {
+      return response;
+    }
+
+    if (!this.options.onValidationIssues) {
+      throw new ContentCloudSchemaValidationError("POST", this.endpoint, issues);
+    }
+    this.options.onValidationIssues(issues, contentType);
+    return response;
+  }
+
+  /**
+   * Get the fields of the content type that are localized and can be filled from the fallback locales.
+   *
+   * @param {keyof ContentTypes} contentType The content type.
+   * @param {ClientRequestOptions} [options] Options for the requests to load the content types.
+   * @returns {Promise<string[]>} The localized fields.
+   */
+  private async getLocalizedFields(contentType: keyof ContentTypes, options?: ClientRequestOptions): Promise<string[]> {
+    if (!this.options.locales) {
+      throw new Error(`localeFallback requires the locales option to look up the localized fields of "${contentType}".`);
+    }
+
+    return this.options.locales.getLocalizedFields(contentType, options);
   }
 
   /**
    * Set user data for a specific content entry and user data type.
+   * If validation is enabled, the input is checked against the user data content type before it's sent.
    *
    * @template ContentType The type of the content user data to set.
    * @template Select The type of the fields to select from the user data entry.
@@ -254,9 +715,10 @@ ${getSelectedFields(select)}
    * @param {ContentType} contentType The content type to set the user data for.
    * @param {GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>} select The fields to select from the user data entry.
    * @param {Object} variables The variables for the mutation, including contentId and input for the mutation.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @return {Promise<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>>} A promise that resolves to the updated user data entry.
    */
-  setContentUserData<
+  async setContentUserData<
     ContentType extends keyof ContentUserDataTypes,
     Select extends GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>,
   >(
@@ -266,7 +728,14 @@ ${getSelectedFields(select)}
       contentId: string;
       input: ContentUserDataTypes[ContentType]["Update"];
     },
+    options?: ClientRequestOptions,
   ): Promise<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select>> {
+    const validator = await this.getValidator(options);
+    const report = validator?.validateFields(contentType, variables.input as Record<string, any>, { path: ["input"], graphql: true });
+    if (report && !report.valid) {
+      throw new ContentCloudSchemaValidationError("POST", this.endpoint, report.issues);
+    }
+
     return this.query<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select>>(
       `
 mutation Set${contentType}($contentId: String!, $input: Set${contentType}Input!) {
@@ -277,6 +746,115 @@ ${getSelectedFields(select)}
 `,
       { ...variables, userDataTypes: [contentType] },
       `set${contentType}`,
+      // The input replaces the previous values, so repeating the mutation is safe.
+      { idempotent: true, ...options },
+    );
+  }
+
+  /**
+   * Get the user data of the current user for a specific content entry and user data type.
+   *
+   * @template ContentType The type of the content user data to get.
+   * @template Select The type of the fields to select from the user data entry.
+   *
+   * @param {ContentType} contentType The user data type to get.
+   * @param {GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>} select The fields to select from the user data entry.
+   * @param {Object} variables The variables for the query, including the contentId.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @return {Promise<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select> | null>} A promise that resolves to the user data entry or null if the user has none for the entry.
+   */
+  async getContentUserData<
+    ContentType extends keyof ContentUserDataTypes,
+    Select extends GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>,
+  >(
+    contentType: ContentType,
+    select: Select,
+    variables: {
+      contentId: string;
+    },
+    options?: ClientRequestOptions,
+  ): Promise<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select> | null> {
+    const queryName = contentType.charAt(0).toLowerCase() + contentType.slice(1);
+    // Not passing the query name, as a missing entry is returned as null instead of throwing.
+    const data = await this.query<Record<string, any>>(
+      `
+query ${queryName}($contentId: String!) {
+  ${queryName}(contentId: $contentId) {
+${getSelectedFields(select)}
+  }
+}
+`,
+      { ...variables, userDataTypes: [contentType] },
+      undefined,
+      options,
+    );
+
+    return data[queryName] ?? null;
+  }
+
+  /**
+   * Fetch a collection of the current user's user data of the given type, e.g. all favorites.
+   *
+   * @template ContentType The type of the content user data to fetch.
+   * @template Select The type of the fields to select from the collection.
+   *
+   * @param {ContentType} contentType The user data type to fetch the collection for.
+   * @param {GraphQLSelect<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>>} select The fields to select from the collection.
+   * @param {ContentUserDataCollectionParams<ContentType>} [params] Optional parameters for the query, such as skip, limit, where and order.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @return {Promise<GraphQLSelected<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>, Select>>} A promise that resolves to the collection response data.
+   */
+  contentUserDataCollection<
+    ContentType extends keyof ContentUserDataTypes,
+    Select extends GraphQLSelect<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>>,
+  >(
+    contentType: ContentType,
+    select: Select,
+    params?: ContentUserDataCollectionParams<ContentType>,
+    options?: ClientRequestOptions,
+  ): Promise<GraphQLSelected<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>, Select>> {
+    const queryName = contentType.charAt(0).toLowerCase() + contentType.slice(1) + "Collection";
+    return this.query<GraphQLSelected<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>, Select>>(
+      `
+query ${queryName}($skip: Int, $limit: Int, $where: ${contentType}Filter, $order: [${contentType}Order!]) {
+  ${queryName}(skip: $skip, limit: $limit, where: $where, order: $order) {
+${getSelectedFields(select)}
+  }
+}
+`,
+      { ...params, userDataTypes: [contentType] },
+      queryName,
+      options,
+    );
+  }
+
+  /**
+   * Delete the user data of the current user for a specific content entry and user data type.
+   *
+   * @template ContentType The type of the content user data to delete.
+   *
+   * @param {ContentType} contentType The user data type to delete.
+   * @param {Object} variables The variables for the mutation, including the contentId.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @return {Promise<void>} A promise that resolves once the user data is deleted.
+   */
+  async deleteContentUserData<ContentType extends keyof ContentUserDataTypes>(
+    contentType: ContentType,
+    variables: {
+      contentId: string;
+    },
+    options?: ClientRequestOptions,
+  ): Promise<void> {
+    await this.query(
+      `
+mutation Delete${contentType}($contentId: String!) {
+  delete${contentType}(contentId: $contentId)
+}
+`,
+      { ...variables, userDataTypes: [contentType] },
+      undefined,
+      // Deleting the same user data twice has no additional effect, so repeating the mutation is safe.
+      { idempotent: true, ...options },
     );
   }
 }
@@ -284,6 +862,11 @@ ${getSelectedFields(select)}
 type EntryParams<K extends keyof ContentTypes> = {
   userDataTypes?: (keyof ContentUserDataTypes)[];
   locale?: string;
+  /**
+   * Fill empty localized fields with the values from these fallback locales, or from the fallback chain of the locale
+   * if true. Requires the `locales` option of the client. Makes an additional request per fallback locale that's needed.
+   */
+  localeFallback?: boolean | string[];
   id?: string;
   revisionId?: string;
   uuid?: string;
@@ -294,6 +877,11 @@ type EntryParams<K extends keyof ContentTypes> = {
 type CollectionParams<K extends keyof ContentTypes> = {
   userDataTypes?: (keyof ContentUserDataTypes)[];
   locale?: string;
+  /**
+   * Fill empty localized fields with the values from these fallback locales, or from the fallback chain of the locale
+   * if true. Requires the `locales` option of the client. Makes an additional request per fallback locale that's needed.
+   */
+  localeFallback?: boolean | string[];
   skip?: number;
   limit?: number;
   where?: ContentTypes[K]["Filter"];
@@ -301,27 +889,64 @@ type CollectionParams<K extends keyof ContentTypes> = {
   order?: ContentTypes[K]["Order"][];
 };
 
+type ContentUserDataCollectionParams<K extends keyof ContentUserDataTypes> = {
+  skip?: number;
+  limit?: number;
+  where?: ContentUserDataTypes[K]["Filter"];
+  order?: ContentUserDataTypes[K]["Order"][];
+};
+
 type QueryMethods<ContentType extends keyof ContentTypes> = {
   [K in Uncapitalize<ContentType>]: <Select extends GraphQLSelect<ContentTypes[ContentType]["Entry"]>>(
     select: Select,
     params: EntryParams<ContentType>,
+    options?: ClientRequestOptions,
   ) => Promise<GraphQLSelected<ContentTypes[ContentType]["Entry"], Select>>;
 } & {
   [K in `${Uncapitalize<ContentType>}Collection`]: <Select extends GraphQLSelect<CollectionResponse<ContentTypes[ContentType]["Entry"]>>>(
     select: Select,
     params?: CollectionParams<ContentType>,
+    options?: ClientRequestOptions,
   ) => Promise<GraphQLSelected<CollectionResponse<ContentTypes[ContentType]["Entry"]>, Select>>;
+} & {
+  [K in `${Uncapitalize<ContentType>}CollectionIterator`]: <
+    Select extends GraphQLSelect<CollectionResponse<ContentTypes[ContentType]["Entry"]>>,
+  >(
+    select: Select,
+    params?: CollectionParams<ContentType>,
+    options?: PaginationOptions,
+  ) => PaginatedCollection<
+    GraphQLSelectedItem<GraphQLSelected<CollectionResponse<ContentTypes[ContentType]["Entry"]>, Select>>,
+    GraphQLSelectedPage<CollectionResponse<ContentTypes[ContentType]["Entry"]>, Select>
+  >;
 };
 
-type MutationMethods<ContentType extends keyof ContentUserDataTypes> = {
+type UserDataMethods<ContentType extends keyof ContentUserDataTypes> = {
   [K in `set${ContentType}`]: <Select extends GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>>(
     contentId: string,
     input: ContentUserDataTypes[ContentType]["Update"],
     select: Select,
+    options?: ClientRequestOptions,
   ) => Promise<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select>>;
+} & {
+  [K in `get${ContentType}`]: <Select extends GraphQLSelect<ContentUserDataTypes[ContentType]["Entry"]>>(
+    contentId: string,
+    select: Select,
+    options?: ClientRequestOptions,
+  ) => Promise<GraphQLSelected<ContentUserDataTypes[ContentType]["Entry"], Select> | null>;
+} & {
+  [K in `${Uncapitalize<ContentType>}Collection`]: <
+    Select extends GraphQLSelect<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>>,
+  >(
+    select: Select,
+    params?: ContentUserDataCollectionParams<ContentType>,
+    options?: ClientRequestOptions,
+  ) => Promise<GraphQLSelected<CollectionResponse<ContentUserDataTypes[ContentType]["Entry"]>, Select>>;
+} & {
+  [K in `delete${ContentType}`]: (contentId: string, options?: ClientRequestOptions) => Promise<void>;
 };
 
-type TypedClient = QueryMethods<keyof ContentTypes> & MutationMethods<keyof ContentUserDataTypes>;
+type TypedClient = QueryMethods<keyof ContentTypes> & UserDataMethods<keyof ContentUserDataTypes>;
 
 /**
  * Creates a GraphQL client for the Content Cloud that can be used to fetch entries and collections.
@@ -338,24 +963,60 @@ export function createContentCloudGraphQLClient(options: GraphQLClientOptions):
       type = type.charAt(0).toUpperCase() + type.slice(1);
 
       if (INDEPENDENT_ENTRY_TYPES.includes(type as any)) {
-        return (select: any, params: GraphQLParams) => {
-          return target.entry(type as keyof ContentTypes, select, params);
+        return (select: any, params: GraphQLParams, options?: ClientRequestOptions) => {
+          return target.entry(type as keyof ContentTypes, select, params, options);
         };
+      } else if (type.endsWith("CollectionIterator")) {
+        type = type.slice(0, -"CollectionIterator".length);
+        if (INDEPENDENT_ENTRY_TYPES.includes(type as any)) {
+          return (select: any, params?: GraphQLParams, options?: PaginationOptions) => {
+            return target.collectionIterator(type as keyof ContentTypes, select, params, options);
+          };
+        }
       } else if (type.endsWith("Collection")) {
         type = type.slice(0, -"Collection".length);
         if (INDEPENDENT_ENTRY_TYPES.includes(type as any)) {
-          return (select: any, params?: GraphQLParams) => {
-            return target.collection(type as keyof ContentTypes, select, params);
+          return (select: any, params?: GraphQLParams, options?: ClientRequestOptions) => {
+            return target.collection(type as keyof ContentTypes, select, params, options);
+          };
+        }
+        if (CONTENT_USER_DATA_ENTRY_TYPES.includes(type as any)) {
+          return (select: any, params?: GraphQLParams, options?: ClientRequestOptions) => {
+            return target.contentUserDataCollection(type as keyof ContentUserDataTypes, select, params, options);
           };
         }
       } else if (type.startsWith("Set")) {
         type = type.slice("Set".length);
         if (CONTENT_USER_DATA_ENTRY_TYPES.includes(type as any)) {
-          return (contentId: string, input: Record<string, any>, select: any) => {
-            return target.setContentUserData(type as keyof ContentUserDataTypes, select, {
-              contentId,
-              input,
-            });
+          return (
+            contentId: string,
+            input: ContentUserDataTypes[keyof ContentUserDataTypes]["Update"],
+            select: any,
+            options?: ClientRequestOptions,
+          ) => {
+            return target.setContentUserData(
+              type as keyof ContentUserDataTypes,
+              select,
+              {
+                contentId,
+                input,
+              },
+              options,
+            );
+          };
+        }
+      } else if (type.startsWith("Get")) {
+        type = type.slice("Get".length);
+        if (CONTENT_USER_DATA_ENTRY_TYPES.includes(type as any)) {
+          return (contentId: string, select: any, options?: ClientRequestOptions) => {
+            return target.getContentUserData(type as keyof ContentUserDataTypes, select, { contentId }, options);
+          };
+        }
+      } else if (type.startsWith("Delete")) {
+        type = type.slice("Delete".length);
+        if (CONTENT_USER_DATA_ENTRY_TYPES.includes(type as any)) {
+          return (contentId: string, options?: ClientRequestOptions) => {
+            return target.deleteContentUserData(type as keyof ContentUserDataTypes, { contentId }, options);
           };
         }
       }
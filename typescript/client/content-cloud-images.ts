@@ -0,0 +1,286 @@
+import { AssetEntry, buildImageUrl, ImageSettings, SystemMimeTypeGroup } from "./content-cloud-system-rest-client";
+
+/**
+ * The output formats supported by the image optimization API.
+ */
+export type ImageFormat = NonNullable<ImageSettings["format"]>;
+
+/**
+ * Options for generating responsive images.
+ */
+export interface ResponsiveImageOptions extends Pick<ImageSettings, "background" | "gravity" | "format" | "fit" | "quality"> {
+  /**
+   * The widths in pixels to generate the srcset for. Widths larger than the original image are replaced by the
+   * width of the original image to prevent upscaling.
+   */
+  widths: number[];
+  /**
+   * The value of the `sizes` attribute, e.g. "(min-width: 768px) 50vw, 100vw". Defaults to "100vw".
+   */
+  sizes?: string;
+  /**
+   * Crop the image to this aspect ratio (width / height), e.g. 16 / 9. Keeps the aspect ratio of the original image
+   * if not provided.
+   */
+  aspectRatio?: number;
+}
+
+/**
+ * Options for generating the sources of a `<picture>` element.
+ */
+export interface PictureOptions extends ResponsiveImageOptions {
+  /**
+   * The modern formats to provide a `<source>` for, in order of preference. Defaults to ["avif", "webp"].
+   * The `<img>` fallback uses the `format` option or the format of the original image.
+   */
+  formats?: ImageFormat[];
+}
+
+/**
+ * The attributes for an `<img>` element.
+ */
+export interface ResponsiveImage {
+  src: string;
+  srcset: string;
+  sizes: string;
+  /**
+   * The width of the largest image in the srcset. Use it with `height` to reserve the space for the image.
+   */
+  width?: number;
+  /**
+   * The height of the largest image in the srcset.
+   */
+  height?: number;
+}
+
+/**
+ * The attributes for a `<source>` element.
+ */
+export interface PictureSource {
+  type: string;
+  srcset: string;
+  sizes: string;
+}
+
+/**
+ * The sources and the fallback image for a `<picture>` element.
+ */
+export interface Picture {
+  sources: PictureSource[];
+  img: ResponsiveImage;
+}
+
+const IMAGE_FORMATS: ImageFormat[] = ["jpeg", "png", "gif", "webp", "avif", "svg"];
+const IMAGE_FITS: NonNullable<ImageSettings["fit"]>[] = ["scale-down", "contain", "cover", "crop", "pad"];
+/**
+ * The options of ResponsiveImageOptions that are not passed to the image optimization API.
+ */
+const RESPONSIVE_IMAGE_OPTIONS = ["widths", "sizes", "aspectRatio", "formats"];
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+/**
+ * Check that the given settings are accepted by the image optimization API.
+ *
+ * @param {ImageSettings} settings The settings to validate.
+ * @throws {Error} If any setting is invalid, naming the setting and the expected format.
+ */
+export function validateImageSettings(settings: ImageSettings): void {
+  for (const name of ["width", "height"] as const) {
+    const value = settings[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Invalid image ${name} ${value}: must be a positive integer.`);
+    }
+  }
+
+  if (settings.quality !== undefined && (!Number.isInteger(settings.quality) || settings.quality < 1 || settings.quality > 100)) {
+    throw new Error(`Invalid image quality ${settings.quality}: must be an integer between 1 and 100.`);
+  }
+
+  if (settings.background !== undefined && !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(settings.background)) {
+    throw new Error(`Invalid image background "${settings.background}": must be a hex color like #fff or #ffffff.`);
+  }
+
+  if (settings.gravity !== undefined && settings.gravity !== "auto" && !/^\d+,\d+$/.test(settings.gravity)) {
+    throw new Error(`Invalid image gravity "${settings.gravity}": must be "auto" or the focal point in pixels like "100,200".`);
+  }
+
+  if (settings.format !== undefined && !IMAGE_FORMATS.includes(settings.format)) {
+    throw new Error(`Invalid image format "${settings.format}": must be one of ${IMAGE_FORMATS.join(", ")}.`);
+  }
+
+  if (settings.fit !== undefined && !IMAGE_FITS.includes(settings.fit)) {
+    throw new Error(`Invalid image fit "${settings.fit}": must be one of ${IMAGE_FITS.join(", ")}.`);
+  }
+}
+
+/**
+ * Get the URL of the image optimization API for the given asset.
+ *
+ * @param {AssetEntry} asset The asset.
+ * @returns {string} The original image URL.
+ * @throws {Error} If the asset isn't an image.
+ */
+function getImageUrl(asset: AssetEntry): string {
+  const file = asset.fields.file;
+  if (file.mimeTypeGroup !== SystemMimeTypeGroup.Image) {
+    throw new Error(`Asset ${asset.sys.id} is not an image but "${file.mimeTypeGroup}".`);
+  }
+  if (!file.imageUrl) {
+    throw new Error(`Asset ${asset.sys.id} has no image URL.`);
+  }
+  return file.imageUrl;
+}
+
+/**
+ * Provide an image URL for the given asset using the image optimization API. Uses the focal point of the asset as
+ * the gravity unless a gravity is provided and validates the settings.
+ *
+ * @param {AssetEntry} asset The image asset.
+ * @param {ImageSettings} [settings] The transformations to apply to the image.
+ * @returns {string} The URL to the image optimization API.
+ * @throws {Error} If the asset isn't an image or the settings are invalid.
+ */
+export function buildAssetImageUrl(asset: AssetEntry, settings: ImageSettings = {}): string {
+  const url = getImageUrl(asset);
+
+  const gravity = settings.gravity ?? asset.fields.file.details?.image?.gravity ?? undefined;
+  const withGravity: ImageSettings = gravity ? { ...settings, gravity } : settings;
+  validateImageSettings(withGravity);
+
+  return buildImageUrl(url, withGravity);
+}
+
+/**
+ * Get the widths and heights to generate, capped at the size of the original image.
+ *
+ * @param {AssetEntry} asset The image asset.
+ * @param {ResponsiveImageOptions} options The requested widths and aspect ratio.
+ * @returns {{ width: number; height?: number }[]} The sizes in ascending order.
+ */
+function getImageSizes(asset: AssetEntry, options: ResponsiveImageOptions): { width: number; height?: number }[] {
+  if (!options.widths.length) {
+    throw new Error("At least one width is required to generate responsive images.");
+  }
+  if (options.aspectRatio !== undefined && !(options.aspectRatio > 0)) {
+    throw new Error(`Invalid aspect ratio ${options.aspectRatio}: must be a positive number.`);
+  }
+
+  const image = asset.fields.file.details?.image;
+  const aspectRatio = options.aspectRatio ?? (image?.width && image?.height ? image.width / image.height : undefined);
+
+  let maxWidth = image?.width ?? Infinity;
+  if (options.aspectRatio !== undefined && image?.height) {
+    maxWidth = Math.min(maxWidth, Math.floor(image.height * options.aspectRatio));
+  }
+
+  const widths = [...new Set(options.widths.map((width) => Math.min(width, maxWidth)))].sort((a, b) => a - b);
+  return widths.map((width) => ({
+    width,
+    height: aspectRatio ? Math.round(width / aspectRatio) : undefined,
+  }));
+}
+
+/**
+ * Build the URL of each size for the given asset and format.
+ *
+ * @param {AssetEntry} asset The image asset.
+ * @param {{ width: number; height?: number }[]} sizes The sizes to build the URLs for.
+ * @param {ResponsiveImageOptions} options The other image settings.
+ * @param {ImageFormat} [format] The output format.
+ * @returns {{ url: string; width: number }[]} The URLs with their widths.
+ */
+function buildSizeUrls(
+  asset: AssetEntry,
+  sizes: { width: number; height?: number }[],
+  options: ResponsiveImageOptions,
+  format?: ImageFormat,
+): { url: string; width: number }[] {
+  const settings: ImageSettings = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (!RESPONSIVE_IMAGE_OPTIONS.includes(key)) {
+      settings[key] = value;
+    }
+  }
+  if (format) {
+    settings.format = format;
+  }
+
+  return sizes.map(({ width, height }) => ({
+    url: buildAssetImageUrl(asset, {
+      ...settings,
+      width,
+      // The height is only needed to crop the image to a different aspect ratio.
+      ...(options.aspectRatio !== undefined && height ? { height } : {}),
+    }),
+    width,
+  }));
+}
+
+/**
+ * Format the URLs as a srcset with width descriptors.
+ *
+ * @param {{ url: string; width: number }[]} urls The URLs with their widths.
+ * @returns {string} The srcset.
+ */
+function formatSrcSet(urls: { url: string; width: number }[]): string {
+  return urls.map(({ url, width }) => `${url} ${width}w`).join(", ");
+}
+
+/**
+ * Generate the `src`, `srcset` and `sizes` attributes of an `<img>` element for the given image asset.
+ * Widths are capped at the size of the original image and the focal point of the asset is used as the gravity.
+ *
+ * @param {AssetEntry} asset The image asset.
+ * @param {ResponsiveImageOptions} options The widths to generate and the image settings to apply.
+ * @returns {ResponsiveImage} The attributes.
+ * @throws {Error} If the asset isn't an image or the options are invalid.
+ */
+export function buildResponsiveImage(asset: AssetEntry, options: ResponsiveImageOptions): ResponsiveImage {
+  const sizes = getImageSizes(asset, options);
+  const urls = buildSizeUrls(asset, sizes, options, options.format);
+  const largest = sizes[sizes.length - 1]!;
+
+  return {
+    src: urls[urls.length - 1]!.url,
+    srcset: formatSrcSet(urls),
+    sizes: options.sizes ?? "100vw",
+    width: largest.width,
+    height: largest.height,
+  };
+}
+
+/**
+ * Generate the `<source>` elements for modern formats and the `<img>` fallback of a `<picture>` element for the given
+ * image asset.
+ *
+ * @param {AssetEntry} asset The image asset.
+ * @param {PictureOptions} options The widths and formats to generate and the image settings to apply.
+ * @returns {Picture} The attributes of the sources and the fallback image.
+ * @throws {Error} If the asset isn't an image or the options are invalid.
+ */
+export function buildPicture(asset: AssetEntry, options: PictureOptions): Picture {
+  const { formats = ["avif", "webp"], ...imageOptions } = options;
+  const sizes = getImageSizes(asset, imageOptions);
+
+  return {
+    sources: formats.map((format) => {
+      if (!IMAGE_FORMATS.includes(format)) {
+        throw new Error(`Invalid image format "${format}": must be one of ${IMAGE_FORMATS.join(", ")}.`);
+      }
+
+      return {
+        type: MIME_TYPES[format],
+        srcset: formatSrcSet(buildSizeUrls(asset, sizes, imageOptions, format)),
+        sizes: imageOptions.sizes ?? "100vw",
+      };
+    }),
+    img: buildResponsiveImage(asset, imageOptions),
+  };
+}
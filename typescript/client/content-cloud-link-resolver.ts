@@ -0,0 +1,174 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { CollectionResponse, EntryLink } from "./content-cloud-system-rest-client";
+
+/**
+ * Replaces all EntryLinks in the given type with the linked entries.
+ * Links that can't be resolved are replaced by the `Unresolved` type instead. Inside of arrays, `null` and
+ * `undefined` replacements are removed.
+ *
+ * @template Type The type that may contain links, e.g. `EntryWithLinks<...>`.
+ * @template Unresolved The type that unresolved links are replaced with.
+ */
+export type ResolvedLinks<Type, Unresolved = never> = Type extends EntryLink
+  ? Unresolved
+  : Type extends (infer ElementType)[]
+    ? ResolvedLinks<ElementType, Exclude<Unresolved, null | undefined>>[]
+    : Type extends object
+      ? { [K in keyof Type]: ResolvedLinks<Type[K], Unresolved> }
+      : Type;
+
+/**
+ * What to do with links that point to entries that are not part of the response.
+ * - "keep": Keep the EntryLink as is.
+ * - "drop": Replace the link with `null` or remove it from arrays.
+ * - A callback: Replace the link with the return value of the callback. `null` and `undefined` are removed from arrays.
+ */
+export type UnresolvedLinkHandling<Unresolved> = "keep" | "drop" | ((link: EntryLink, path: (string | number)[]) => Unresolved);
+
+/**
+ * Options for resolving links.
+ */
+export interface ResolveLinksOptions<Unresolved> {
+  /**
+   * What to do with links that can't be resolved. Defaults to "keep".
+   */
+  unresolved?: UnresolvedLinkHandling<Unresolved>;
+}
+
+/**
+ * Linked entries the API may return next to the items for the `include` parameter, grouped by their system type.
+ * This isn't part of CollectionResponse, so the entries are only indexed if the response has them.
+ */
+type IncludedEntries = { includes?: Record<string, unknown> };
+
+/**
+ * Check whether the given value is an EntryLink.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {boolean} Whether the value is an EntryLink.
+ */
+export function isEntryLink(value: unknown): value is EntryLink {
+  return !!value && typeof value === "object" && (value as any).sys?.type === "Link" && typeof (value as any).sys.id === "string";
+}
+
+/**
+ * Add all entries within the given value to the index, including entries embedded in fields.
+ * The first occurrence of an entry wins, so entries from the items are preferred over included entries.
+ *
+ * @param {unknown} value The value to search for entries.
+ * @param {Map<string, object>} index The index to add the entries to, keyed by their ID.
+ * @param {Set<object>} visited The objects that were already visited to handle cycles.
+ */
+function indexEntries(value: unknown, index: Map<string, object>, visited: Set<object>) {
+  if (!value || typeof value !== "object" || visited.has(value)) {
+    return;
+  }
+  visited.add(value);
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => indexEntries(item, index, visited));
+    return;
+  }
+
+  const sys = (value as any).sys;
+  if (sys && typeof sys.id === "string" && sys.type !== "Link" && sys.type !== "Array" && !index.has(sys.id)) {
+    index.set(sys.id, value);
+  }
+
+  for (const [key, property] of Object.entries(value)) {
+    if (key !== "sys") {
+      indexEntries(property, index, visited);
+    }
+  }
+}
+
+/**
+ * Resolve all EntryLinks in the given collection response with the entries that are part of the response, i.e. the
+ * items, the entries provided by the `include` parameter and any entries embedded through the `embed` parameter.
+ *
+ * The response is not modified. Every entry is copied once, so entries that link to each other (directly or
+ * indirectly) reference the same object and the result may contain cycles. Don't serialize it with JSON.stringify.
+ *
+ * @param {CollectionResponse<Type>} response The response to resolve the links for.
+ * @param {ResolveLinksOptions<Unresolved>} [options] What to do with links that can't be resolved.
+ * @returns {CollectionResponse<ResolvedLinks<Type>>} A copy of the response with the links replaced.
+ *
+ * @template Type The type of the items in the collection.
+ * @template Unresolved The type that unresolved links are replaced with.
+ */
+export function resolveLinks<Type>(response: CollectionResponse<Type>): CollectionResponse<ResolvedLinks<Type, EntryLink>>;
+export function resolveLinks<Type>(
+  response: CollectionResponse<Type>,
+  options: ResolveLinksOptions<never> & { unresolved: "keep" },
+): CollectionResponse<ResolvedLinks<Type, EntryLink>>;
+export function resolveLinks<Type>(
+  response: CollectionResponse<Type>,
+  options: ResolveLinksOptions<never> & { unresolved: "drop" },
+): CollectionResponse<ResolvedLinks<Type, null>>;
+export function resolveLinks<Type, Unresolved>(
+  response: CollectionResponse<Type>,
+  options: ResolveLinksOptions<Unresolved> & { unresolved: (link: EntryLink, path: (string | number)[]) => Unresolved },
+): CollectionResponse<ResolvedLinks<Type, Unresolved>>;
+export function resolveLinks(response: CollectionResponse<any>, options?: ResolveLinksOptions<any>): CollectionResponse<any> {
+  const unresolved = options?.unresolved ?? "keep";
+
+  const index = new Map<string, object>();
+  const visited = new Set<object>();
+  indexEntries(response.items, index, visited);
+  for (const entries of Object.values((response as IncludedEntries).includes ?? {})) {
+    indexEntries(entries, index, visited);
+  }
+
+  const copies = new Map<object, any>();
+  const resolve = (value: any, path: (string | number)[]): any => {
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+
+    if (isEntryLink(value)) {
+      const entry = index.get(value.sys.id);
+      if (entry) {
+        return resolve(entry, path);
+      }
+
+      if (unresolved === "keep") {
+        return value;
+      }
+      if (unresolved === "drop") {
+        return null;
+      }
+      return unresolved(value, path);
+    }
+
+    const existing = copies.get(value);
+    if (existing) {
+      return existing;
+    }
+
+    if (Array.isArray(value)) {
+      const copy: any[] = [];
+      copies.set(value, copy);
+      value.forEach((item, i) => {
+        const resolved = resolve(item, [...path, i]);
+        if (isEntryLink(item) && (resolved === null || resolved === undefined)) {
+          return;
+        }
+        copy.push(resolved);
+      });
+      return copy;
+    }
+
+    const copy: Record<string, any> = {};
+    copies.set(value, copy);
+    for (const [key, property] of Object.entries(value)) {
+      // System metadata only contains links to system entries like the content type, so keep it as is.
+      copy[key] = key === "sys" ? property : resolve(property, [...path, key]);
+    }
+    return copy;
+  };
+
+  return {
+    ...response,
+    items: response.items.map((item, i) => resolve(item, [i])),
+  };
+}
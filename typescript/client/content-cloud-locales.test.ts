@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createContentCloudGraphQLClient } from "./content-cloud-graphql-client";
+import { ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+
+const BASE_URL = "https://api.example.com";
+
+const ARTICLE = {
+  id: "ct-article",
+  machineName: "article",
+  properties: [
+    { machineName: "title", isLocalized: true },
+    { machineName: "slug", isLocalized: false },
+    { machineName: "summary", isLocalized: true },
+  ],
+};
+
+const FIELDS: Record<string, Record<string, string>> = {
+  "de-CH": { title: "", slug: "", summary: "" },
+  de: { title: "Hallo", slug: "hallo", summary: "Zusammenfassung" },
+};
+
+/**
+ * Create a REST client that serves the locales, the article content type and one article in German and Swiss German.
+ */
+function createRestClient(): ContentCloudSystemRestClient {
+  const collection = (items: unknown[]) => ({ items, total: items.length, skip: 0, limit: 100 });
+
+  return new ContentCloudSystemRestClient({
+    baseUrl: BASE_URL,
+    fetch: (async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      switch (pathname) {
+        case "/locales":
+          return Response.json(collection([{ code: "de" }, { code: "de-CH", fallbackCode: "de" }]));
+        case "/content_types":
+          return Response.json(collection([ARTICLE]));
+        case "/content_types/ct-article":
+          return Response.json(ARTICLE);
+        case "/entries":
+          return Response.json(
+            collection([{ sys: { id: "1", contentType: { sys: { id: "ct-article" } } }, fields: FIELDS[searchParams.get("locale")!] }]),
+          );
+      }
+      return new Response(null, { status: 404 });
+    }) as typeof fetch,
+  });
+}
+
+describe("locale fallbacks", () => {
+  it("only fill the localized fields of GraphQL entries", async () => {
+    const client = createContentCloudGraphQLClient({
+      baseUrl: BASE_URL,
+      locales: createRestClient().locales,
+      fetch: (async (_url: string, init: RequestInit) => {
+        const { locale } = JSON.parse(init.body as string).variables;
+        return Response.json({ data: { article: { title: FIELDS[locale]!.title, slug: FIELDS[locale]!.slug } } });
+      }) as typeof fetch,
+    });
+
+    const entry = await client.entry("Article", { title: 1, slug: 1 }, { id: "1", locale: "de-CH", localeFallback: true });
+
+    assert.deepEqual(entry, { title: "Hallo", slug: "" });
+  });
+
+  it("only fill the REST fields included by select", async () => {
+    const client = createRestClient();
+
+    const response = await client.contentCollection({ locale: "de-CH", select: "sys,fields.title,fields.slug" }, { localeFallback: true });
+
+    assert.deepEqual(response.items[0]!.fields, { title: "Hallo", slug: "", summary: "" });
+  });
+});
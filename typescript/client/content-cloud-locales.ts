@@ -0,0 +1,220 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getGraphQLTypeName } from "./content-cloud-cache";
+import { ClientRequestOptions } from "./content-cloud-request";
+import { ContentCloudSystemRestClient, ContentEntry, ContentTypeEntry, LocaleEntry } from "./content-cloud-system-rest-client";
+
+/**
+ * Check whether a field value is considered untranslated, i.e. null, undefined, an empty string or an empty array.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {boolean} Whether the value is empty.
+ */
+export function isEmptyFieldValue(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && !value.length);
+}
+
+/**
+ * Copy all values from the fallback that are empty in the target. Returns a new object; the target isn't modified.
+ *
+ * @param {Record<string, any>} target The fields in the requested locale.
+ * @param {Record<string, any>} fallback The fields in the fallback locale.
+ * @param {string[]} [keys] The keys to merge. Defaults to all keys of the fallback.
+ * @returns {Record<string, any>} The merged fields.
+ */
+export function mergeFallbackFields<Fields extends Record<string, any>>(
+  target: Fields,
+  fallback: Record<string, any>,
+  keys?: string[],
+): Fields {
+  const merged: Record<string, any> = { ...target };
+  for (const key of keys ?? Object.keys(fallback)) {
+    if (isEmptyFieldValue(merged[key]) && !isEmptyFieldValue(fallback[key])) {
+      merged[key] = fallback[key];
+    }
+  }
+  return merged as Fields;
+}
+
+/**
+ * Get the fields included by the `select` parameter of a request, e.g. ["title"] for "sys.id,fields.title".
+ *
+ * @param {string | string[]} [select] The selected paths, as a list or joined by commas.
+ * @returns {string[] | undefined} The selected fields or undefined if all fields are included.
+ */
+function getSelectedFields(select?: string | string[]): string[] | undefined {
+  const paths = (Array.isArray(select) ? select : (select?.split(",") ?? [])).map((path) => path.trim()).filter(Boolean);
+  if (!paths.length || paths.includes("fields")) {
+    return undefined;
+  }
+
+  return paths.filter((path) => path.startsWith("fields.")).map((path) => path.split(".")[1]!);
+}
+
+/**
+ * ContentCloudLocaleService loads and caches the locales of the space and resolves their fallback chains.
+ * It's available as `ContentCloudSystemRestClient.locales`. The locales are loaded once per instance; call `clear()`
+ * to reload them.
+ */
+export class ContentCloudLocaleService {
+  private localesPromise?: Promise<LocaleEntry[]>;
+  private contentTypesPromise?: Promise<ContentTypeEntry[]>;
+  private readonly contentTypes = new Map<string, Promise<ContentTypeEntry | null>>();
+
+  /**
+   * Create a new instance of the ContentCloudLocaleService.
+   *
+   * @param {ContentCloudSystemRestClient} client The client to load the locales and content types with.
+   */
+  constructor(private readonly client: ContentCloudSystemRestClient) {}
+
+  /**
+   * Get all locales of the space.
+   *
+   * @param {ClientRequestOptions} [options] Options for the requests if the locales aren't loaded yet.
+   * @returns {Promise<LocaleEntry[]>} The locales.
+   */
+  async getLocales(options?: ClientRequestOptions): Promise<LocaleEntry[]> {
+    if (!this.localesPromise) {
+      this.localesPromise = this.client.localeCollectionIterator(undefined, options).toArray();
+      // Allow retrying if loading failed.
+      this.localesPromise.catch(() => (this.localesPromise = undefined));
+    }
+    return this.localesPromise;
+  }
+
+  /**
+   * Get the fallback chain for the given locale, starting with the locale itself, followed by its fallback locale,
+   * the fallback of the fallback locale etc. Cycles in the configuration are ignored.
+   *
+   * @param {string} code The locale code.
+   * @param {ClientRequestOptions} [options] Options for the requests if the locales aren't loaded yet.
+   * @returns {Promise<string[]>} The locale codes to try in order.
+   */
+  async getFallbackChain(code: string, options?: ClientRequestOptions): Promise<string[]> {
+    const locales = new Map((await this.getLocales(options)).map((locale) => [locale.code, locale]));
+
+    const chain = [code];
+    let fallback = locales.get(code)?.fallbackCode;
+    while (fallback && !chain.includes(fallback)) {
+      chain.push(fallback);
+      fallback = locales.get(fallback)?.fallbackCode;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Fill the localized fields of the given entries that are empty with the values from the fallback locales.
+   * Only properties that are marked as `isLocalized` in the content type and are included by `select` are merged.
+   * The entries are not modified.
+   *
+   * @param {ContentEntryType[]} entries The entries in the requested locale.
+   * @param {string} locale The requested locale.
+   * @param {ClientRequestOptions} [options] Options for the requests.
+   * @param {string | string[]} [select] The `select` parameter of the request. Fields it excludes are never filled.
+   * @returns {Promise<ContentEntryType[]>} Copies of the entries with the fallback values applied.
+   *
+   * @template ContentEntryType The type of the content entries.
+   */
+  async applyFallbacks<ContentEntryType extends ContentEntry>(
+    entries: ContentEntryType[],
+    locale: string,
+    options?: ClientRequestOptions,
+    select?: string | string[],
+  ): Promise<ContentEntryType[]> {
+    const fallbacks = (await this.getFallbackChain(locale, options)).slice(1);
+    if (!fallbacks.length || !entries.length) {
+      return entries;
+    }
+
+    const selectedFields = getSelectedFields(select);
+    const localizedFields = new Map<string, string[]>();
+    for (const entry of entries) {
+      const contentTypeId = entry.sys.contentType?.sys.id;
+      if (contentTypeId && !localizedFields.has(contentTypeId)) {
+        const contentType = await this.getContentType(contentTypeId, options);
+        localizedFields.set(
+          contentTypeId,
+          (contentType?.properties ?? [])
+            .filter((property) => property.isLocalized && (!selectedFields || selectedFields.includes(property.machineName)))
+            .map((property) => property.machineName),
+        );
+      }
+    }
+
+    const getMissingFields = (entry: ContentEntryType) =>
+      (localizedFields.get(entry.sys.contentType?.sys.id) ?? []).filter((field) => isEmptyFieldValue(entry.fields?.[field]));
+
+    let result = entries;
+    for (const fallback of fallbacks) {
+      const missing = result.filter((entry) => getMissingFields(entry).length);
+      if (!missing.length) {
+        break;
+      }
+
+      const fallbackEntries = await this.client
+        .contentCollectionIterator<ContentEntryType>(
+          { locale: fallback, "sys.id[in]": missing.map((entry) => entry.sys.id).join(",") },
+          options,
+        )
+        .toArray();
+      const byId = new Map(fallbackEntries.map((entry) => [entry.sys.id, entry]));
+
+      result = result.map((entry) => {
+        const fallbackEntry = byId.get(entry.sys.id);
+        if (!fallbackEntry) {
+          return entry;
+        }
+
+        return { ...entry, fields: mergeFallbackFields(entry.fields ?? {}, fallbackEntry.fields ?? {}, getMissingFields(entry)) };
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the machine names of the localized properties of a content type by its type name in the GraphQL schema, e.g.
+   * "BlogPost" for "blog_post". Loads all content types once per instance.
+   *
+   * @param {string} typeName The GraphQL type name of the content type.
+   * @param {ClientRequestOptions} [options] Options for the requests if the content types aren't loaded yet.
+   * @returns {Promise<string[]>} The localized fields, empty if the content type doesn't exist.
+   */
+  async getLocalizedFields(typeName: string, options?: ClientRequestOptions): Promise<string[]> {
+    if (!this.contentTypesPromise) {
+      this.contentTypesPromise = this.client.contentTypeCollectionIterator(undefined, options).toArray();
+      // Allow retrying if loading failed.
+      this.contentTypesPromise.catch(() => (this.contentTypesPromise = undefined));
+    }
+
+    const contentType = (await this.contentTypesPromise).find((type) => getGraphQLTypeName(type.machineName) === typeName);
+    return (contentType?.properties ?? []).filter((property) => property.isLocalized).map((property) => property.machineName);
+  }
+
+  /**
+   * Remove the cached locales and content types.
+   */
+  clear() {
+    this.localesPromise = undefined;
+    this.contentTypesPromise = undefined;
+    this.contentTypes.clear();
+  }
+
+  /**
+   * Get the content type with the given ID, cached per instance.
+   *
+   * @param {string} id The ID of the content type.
+   * @param {ClientRequestOptions} [options] Options for the request.
+   * @returns {Promise<ContentTypeEntry | null>} The content type.
+   */
+  private getContentType(id: string, options?: ClientRequestOptions): Promise<ContentTypeEntry | null> {
+    let contentType = this.contentTypes.get(id);
+    if (!contentType) {
+      contentType = this.client.contentTypeEntry({ id }, options);
+      contentType.catch(() => this.contentTypes.delete(id));
+      this.contentTypes.set(id, contentType);
+    }
+    return contentType;
+  }
+}
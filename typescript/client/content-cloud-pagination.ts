@@ -0,0 +1,133 @@
+import { ClientRequestOptions } from "./content-cloud-request";
+
+/**
+ * The pagination metadata every collection response provides.
+ *
+ * @template Item The type of the items in the collection.
+ */
+export interface CollectionPage<Item> {
+  items: Item[];
+  limit: number;
+  skip: number;
+  total: number;
+}
+
+/**
+ * The pagination parameters to request a specific page. `limit` is only set if it's known, otherwise the server's
+ * default page size is used.
+ */
+export interface PageRequest {
+  skip: number;
+  limit?: number;
+}
+
+/**
+ * Options to configure how a collection is iterated.
+ */
+export interface PaginationOptions extends ClientRequestOptions {
+  /**
+   * Stop after this many items, even if the collection contains more.
+   */
+  maxItems?: number;
+  /**
+   * How many pages to request in parallel. Use 2 or more to prefetch the next page(s) while the current page is
+   * being processed. Defaults to 1.
+   */
+  concurrency?: number;
+}
+
+/**
+ * PaginatedCollection walks a collection page by page using `skip` and `total` and can be used with `for await` to
+ * iterate over all items. Use `pages()` to iterate over the full page responses instead.
+ * Every iteration starts from the first page again.
+ *
+ * @template Item The type of the items in the collection.
+ * @template Page The type of the page responses.
+ */
+export class PaginatedCollection<Item, Page extends CollectionPage<Item> = CollectionPage<Item>> implements AsyncIterable<Item> {
+  /**
+   * Create a new instance of the PaginatedCollection.
+   *
+   * @param {(page: PageRequest) => Promise<Page>} loadPage The function to request a single page.
+   * @param {PaginationOptions & Partial<PageRequest>} [options] Where to start, the page size and when to stop.
+   */
+  constructor(
+    private readonly loadPage: (page: PageRequest) => Promise<Page>,
+    private readonly options: PaginationOptions & Partial<PageRequest> = {},
+  ) {}
+
+  /**
+   * Iterate over all pages of the collection. If `maxItems` is set, the items of the last page are truncated.
+   */
+  async *pages(): AsyncGenerator<Page, void, undefined> {
+    const start = this.options.skip ?? 0;
+    const concurrency = Math.max(1, this.options.concurrency ?? 1);
+
+    const first = await this.loadPage({ skip: start, ...(this.options.limit !== undefined ? { limit: this.options.limit } : {}) });
+    const limit = this.options.limit ?? first.limit;
+    const end = Math.min(first.total, this.options.maxItems !== undefined ? start + this.options.maxItems : Infinity);
+
+    yield this.truncate(first, end);
+    if (!limit || !first.items.length) {
+      return;
+    }
+
+    let nextSkip = start + limit;
+    const pending: Promise<Page>[] = [];
+    const fill = () => {
+      while (pending.length < concurrency && nextSkip < end) {
+        const page = this.loadPage({ skip: nextSkip, limit });
+        // Prevent unhandled rejections if the caller stops iterating before the prefetched page is awaited.
+        page.catch(() => undefined);
+        pending.push(page);
+        nextSkip += limit;
+      }
+    };
+
+    fill();
+    while (pending.length) {
+      const page = await pending.shift()!;
+      if (!page.items.length) {
+        return;
+      }
+
+      yield this.truncate(page, end);
+      fill();
+    }
+  }
+
+  /**
+   * Iterate over all items of the collection.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Item, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Load all items of the collection into an array.
+   */
+  async toArray(): Promise<Item[]> {
+    const items: Item[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Remove all items from the page that are beyond the given end offset.
+   *
+   * @param {Page} page The page to truncate.
+   * @param {number} end The offset of the first item to remove.
+   * @returns {Page} The page or a truncated copy of the page.
+   */
+  private truncate(page: Page, end: number): Page {
+    if (page.skip + page.items.length <= end) {
+      return page;
+    }
+
+    return { ...page, items: page.items.slice(0, Math.max(0, end - page.skip)) };
+  }
+}
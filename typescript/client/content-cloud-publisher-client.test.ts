@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ContentCloudPublisherClient } from "./content-cloud-publisher-client";
+
+describe("ContentCloudPublisherClient", () => {
+  it("sends the version ID or the revision the write is based on as a precondition", async () => {
+    const preconditions: (string | undefined)[] = [];
+    const client = new ContentCloudPublisherClient({
+      baseUrl: "https://api.example.com",
+      accessToken: "token",
+      fetch: (async (_url: string, init: RequestInit) => {
+        preconditions.push((init.headers as Record<string, string>)["If-Match"]);
+        return new Response(null, { status: 204 });
+      }) as typeof fetch,
+    });
+
+    await client.publish({ sys: { id: "1", type: "Content", revision: 3, versionId: "version-3" } });
+    await client.publish({ sys: { id: "1", type: "Content", revision: 3 } });
+    await client.delete({ sys: { id: "1", type: "Tag", versionId: "version-4" } });
+
+    assert.deepEqual(preconditions, ['"version-3"', '"3"', '"version-4"']);
+  });
+});
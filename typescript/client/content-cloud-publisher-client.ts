@@ -0,0 +1,318 @@
+import { ClientRequestOptions, ContentCloudMiddleware, readJsonBody, RetryOptions, sendRequest } from "./content-cloud-request";
+import { AssetEntry, EntrySystemMetadata, TagEntry } from "./content-cloud-system-rest-client";
+import { AccessTokenSource, ContentCloudTokenManager } from "./content-cloud-token-manager";
+import { ContentTypes } from "./rest-schema";
+
+/**
+ * The fields of a content entry of the given content type.
+ *
+ * @template TypeName The content type. Must be a key of ContentTypes.
+ */
+export type ContentEntryFields<TypeName extends keyof ContentTypes> = ContentTypes[TypeName]["Entry"] extends { fields: infer Fields }
+  ? Fields
+  : Record<string, unknown>;
+
+/**
+ * The fields to create or update a tag with.
+ */
+export type TagData = Pick<TagEntry, "name" | "description">;
+
+/**
+ * The version of a content entry, tag or asset that a write is based on, given by its `versionId`, its `revision` or
+ * both. Pass the `sys` of the loaded entry, e.g. `{ sys: entry.sys }`. The version is sent as an `If-Match`
+ * precondition, so the write is rejected with a ContentCloudConflictError if the entry was changed since.
+ */
+export interface PublisherEntryReference {
+  sys: Pick<EntrySystemMetadata<"Content" | "Tag" | "Asset">, "id" | "type"> &
+    ({ revision: number; versionId?: string } | { revision?: number; versionId: string });
+}
+
+/**
+ * Options for requests to the publisher API.
+ */
+export interface PublisherRequestOptions extends Omit<ClientRequestOptions, "cache"> {
+  /**
+   * The locale of the fields that are written. Defaults to the default locale of the space.
+   */
+  locale?: string;
+}
+
+/**
+ * Options for the publisher client.
+ */
+export interface PublisherClientOptions {
+  /**
+   * The base URL of the Content Cloud API. This is different per region of hosting.
+   */
+  baseUrl: string;
+  /**
+   * The access token with the `service:publisher` service, a function providing it or a shared token manager.
+   */
+  accessToken: AccessTokenSource;
+  /**
+   * The fetch function to use for the requests. Uses the global fetch function if not provided.
+   */
+  fetch?: typeof fetch;
+  /**
+   * How to retry failed requests. Uses the DEFAULT_RETRY_OPTIONS if not provided. Pass `false` to disable retries.
+   * Writes are only retried if they were rate limited, unless they are marked as idempotent.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * The default timeout for requests in milliseconds, including all retries. Requests won't time out if not provided.
+   */
+  timeout?: number;
+  /**
+   * The middleware to run for every request, e.g. to add custom headers or to log writes.
+   */
+  middleware?: ContentCloudMiddleware[];
+}
+
+/**
+ * The path of each system type in the publisher API.
+ */
+const ENTRY_PATHS: Record<PublisherEntryReference["sys"]["type"], string> = {
+  Content: "entries",
+  Tag: "tags",
+  Asset: "assets",
+};
+
+/**
+ * ContentCloudPublisherClient is a client for the private content management API of the Content Cloud. It creates,
+ * updates, publishes, unpublishes, archives and deletes content entries, tags and assets.
+ *
+ * All writes to existing entries require the version ID or revision the changes are based on. If someone else changed the entry
+ * in the meantime, the write is rejected with a ContentCloudConflictError instead of overwriting their changes.
+ * Responses are never cached; call `invalidateCache()` on the delivery clients after publishing.
+ */
+export class ContentCloudPublisherClient {
+  /**
+   * Provides the access token for all requests. Pass it to other clients to share the token.
+   */
+  public readonly tokens: ContentCloudTokenManager;
+
+  /**
+   * Create a new instance of the ContentCloudPublisherClient.
+   *
+   * @param {PublisherClientOptions} options The options to configure the client.
+   */
+  constructor(private readonly options: PublisherClientOptions) {
+    if (options.baseUrl.endsWith("/")) {
+      throw new Error("baseUrl must not end with a slash.");
+    }
+
+    const tokens = ContentCloudTokenManager.from(options.accessToken);
+    if (!tokens) {
+      throw new Error("accessToken is required.");
+    }
+    this.tokens = tokens;
+  }
+
+  /**
+   * Create a new, unpublished content entry.
+   *
+   * @template TypeName The content type of the entry. Must be a key of ContentTypes.
+   *
+   * @param {TypeName} contentType The content type of the entry.
+   * @param {ContentEntryFields<TypeName>} fields The fields of the entry.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<ContentTypes[TypeName]["Entry"]>} The created entry.
+   */
+  async createEntry<TypeName extends keyof ContentTypes & string>(
+    contentType: TypeName,
+    fields: ContentEntryFields<TypeName>,
+    options?: PublisherRequestOptions,
+  ): Promise<ContentTypes[TypeName]["Entry"]> {
+    return this.send("POST", "/entries", undefined, { contentType, fields }, options);
+  }
+
+  /**
+   * Replace the fields of a content entry. Published entries keep their published version until they are published
+   * again.
+   *
+   * @template TypeName The content type of the entry. Must be a key of ContentTypes.
+   *
+   * @param {TypeName} contentType The content type of the entry.
+   * @param {PublisherEntryReference} entry The entry and the revision the changes are based on.
+   * @param {ContentEntryFields<TypeName>} fields The new fields of the entry.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<ContentTypes[TypeName]["Entry"]>} The updated entry with the new revision.
+   * @throws {ContentCloudConflictError} If the entry was changed since the given revision.
+   */
+  async updateEntry<TypeName extends keyof ContentTypes & string>(
+    contentType: TypeName,
+    entry: PublisherEntryReference,
+    fields: ContentEntryFields<TypeName>,
+    options?: PublisherRequestOptions,
+  ): Promise<ContentTypes[TypeName]["Entry"]> {
+    return this.send("PUT", `/entries/${entry.sys.id}`, entry, { contentType, fields }, options);
+  }
+
+  /**
+   * Create a new tag.
+   *
+   * @param {TagData} data The name and description of the tag.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<TagEntry>} The created tag.
+   */
+  async createTag(data: TagData, options?: PublisherRequestOptions): Promise<TagEntry> {
+    return this.send("POST", "/tags", undefined, data, options);
+  }
+
+  /**
+   * Replace the name and description of a tag.
+   *
+   * @param {PublisherEntryReference} tag The tag and the revision the changes are based on.
+   * @param {TagData} data The new name and description of the tag.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<TagEntry>} The updated tag with the new revision.
+   * @throws {ContentCloudConflictError} If the tag was changed since the given revision.
+   */
+  async updateTag(tag: PublisherEntryReference, data: TagData, options?: PublisherRequestOptions): Promise<TagEntry> {
+    return this.send("PUT", `/tags/${tag.sys.id}`, tag, data, options);
+  }
+
+  /**
+   * Create a new, unpublished asset.
+   *
+   * @param {AssetEntry["fields"]} fields The fields of the asset.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<AssetEntry>} The created asset.
+   */
+  async createAsset(fields: AssetEntry["fields"], options?: PublisherRequestOptions): Promise<AssetEntry> {
+    return this.send("POST", "/assets", undefined, { fields }, options);
+  }
+
+  /**
+   * Replace the fields of an asset.
+   *
+   * @param {PublisherEntryReference} asset The asset and the revision the changes are based on.
+   * @param {AssetEntry["fields"]} fields The new fields of the asset.
+   * @param {PublisherRequestOptions} [options] The locale of the fields and options for this request.
+   * @returns {Promise<AssetEntry>} The updated asset with the new revision.
+   * @throws {ContentCloudConflictError} If the asset was changed since the given revision.
+   */
+  async updateAsset(asset: PublisherEntryReference, fields: AssetEntry["fields"], options?: PublisherRequestOptions): Promise<AssetEntry> {
+    return this.send("PUT", `/assets/${asset.sys.id}`, asset, { fields }, options);
+  }
+
+  /**
+   * Publish the given revision of a content entry, tag or asset.
+   *
+   * @param {PublisherEntryReference} entry The entry and the revision to publish.
+   * @param {PublisherRequestOptions} [options] Options for this request.
+   * @returns {Promise<EntryType>} The published entry.
+   * @throws {ContentCloudConflictError} If the entry was changed since the given revision.
+   *
+   * @template EntryType The type of the entry, if available.
+   */
+  async publish<EntryType extends object>(entry: PublisherEntryReference, options?: PublisherRequestOptions): Promise<EntryType> {
+    return this.send("PUT", `${this.getPath(entry)}/published`, entry, undefined, options);
+  }
+
+  /**
+   * Unpublish a content entry, tag or asset. The entry is kept as a draft.
+   *
+   * @param {PublisherEntryReference} entry The entry and its current revision.
+   * @param {PublisherRequestOptions} [options] Options for this request.
+   * @returns {Promise<EntryType>} The unpublished entry.
+   * @throws {ContentCloudConflictError} If the entry was changed since the given revision.
+   *
+   * @template EntryType The type of the entry, if available.
+   */
+  async unpublish<EntryType extends object>(entry: PublisherEntryReference, options?: PublisherRequestOptions): Promise<EntryType> {
+    return this.send("DELETE", `${this.getPath(entry)}/published`, entry, undefined, options);
+  }
+
+  /**
+   * Archive a content entry, tag or asset. Archived entries are unpublished and hidden from editors by default.
+   *
+   * @param {PublisherEntryReference} entry The entry and its current revision.
+   * @param {PublisherRequestOptions} [options] Options for this request.
+   * @returns {Promise<EntryType>} The archived entry.
+   * @throws {ContentCloudConflictError} If the entry was changed since the given revision.
+   *
+   * @template EntryType The type of the entry, if available.
+   */
+  async archive<EntryType extends object>(entry: PublisherEntryReference, options?: PublisherRequestOptions): Promise<EntryType> {
+    return this.send("PUT", `${this.getPath(entry)}/archived`, entry, undefined, options);
+  }
+
+  /**
+   * Delete a content entry, tag or asset permanently.
+   *
+   * @param {PublisherEntryReference} entry The entry and its current revision.
+   * @param {PublisherRequestOptions} [options] Options for this request.
+   * @throws {ContentCloudConflictError} If the entry was changed since the given revision.
+   */
+  async delete(entry: PublisherEntryReference, options?: PublisherRequestOptions): Promise<void> {
+    await this.send("DELETE", this.getPath(entry), entry, undefined, options);
+  }
+
+  /**
+   * Get the path of the given entry in the publisher API.
+   *
+   * @param {PublisherEntryReference} entry The entry.
+   * @returns {string} The path, e.g. "/entries/123".
+   * @throws {Error} If the type of the entry isn't supported.
+   */
+  private getPath(entry: PublisherEntryReference): string {
+    const path = ENTRY_PATHS[entry.sys.type];
+    if (!path) {
+      throw new Error(`Entries of type "${entry.sys.type}" can't be managed with the publisher API.`);
+    }
+    return `/${path}/${entry.sys.id}`;
+  }
+
+  /**
+   * Send a request to the publisher API.
+   *
+   * @param {string} method The HTTP method.
+   * @param {string} path The path to the API endpoint. Will be appended to the base URL.
+   * @param {PublisherEntryReference | undefined} entry The entry and the revision the write is based on, if any.
+   * @param {object | undefined} body The body of the request. This will be serialized to JSON.
+   * @param {PublisherRequestOptions} [options] The locale and options for this request.
+   * @returns {Promise<ResponseBodyType>} The response body.
+   * @throws {ContentCloudApiError} If the response has a non-2xx status code.
+   *
+   * @template ResponseBodyType The type of the response body, if available.
+   */
+  private async send<ResponseBodyType>(
+    method: string,
+    path: string,
+    entry: PublisherEntryReference | undefined,
+    body: object | undefined,
+    options?: PublisherRequestOptions,
+  ): Promise<ResponseBodyType> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (body) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (entry) {
+      // The API rejects the write with a 412 if the entry was changed since this version. The version ID identifies
+      // the exact version, so it's preferred over the revision.
+      headers["If-Match"] = `"${entry.sys.versionId ?? entry.sys.revision}"`;
+    }
+
+    const response = await sendRequest(
+      {
+        method,
+        url: `${this.options.baseUrl}${path}${options?.locale ? `?locale=${encodeURIComponent(options.locale)}` : ""}`,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      {
+        fetch: this.options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args)),
+        tokens: this.tokens,
+        retry: options?.retry ?? this.options.retry,
+        // A repeated write would be rejected as a conflict, so writes aren't retried by default.
+        idempotent: options?.idempotent ?? false,
+        signal: options?.signal,
+        timeout: options?.timeout ?? this.options.timeout,
+        middleware: this.options.middleware,
+      },
+    );
+
+    return (await readJsonBody<ResponseBodyType>(response)) as ResponseBodyType;
+  }
+}
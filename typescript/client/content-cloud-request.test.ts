@@ -0,0 +1,221 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ContentCloudAbortError, ContentCloudApiError, ContentCloudTimeoutError } from "./content-cloud-errors";
+import {
+  ContentCloudRequest,
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  readJsonBody,
+  sendRequest,
+  SendRequestSettings,
+} from "./content-cloud-request";
+import { ContentCloudTokenManager } from "./content-cloud-token-manager";
+
+const REQUEST: ContentCloudRequest = { method: "GET", url: "https://api.example.com/entries", headers: {} };
+const NO_DELAY = { initialDelay: 0, jitter: false };
+
+/**
+ * Create a fetch function that returns the given responses in order and records the requests.
+ */
+function mockFetch(...responses: (Response | Error)[]) {
+  const calls: { url: string; headers: Record<string, string> }[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, headers: init.headers as Record<string, string> });
+    const response = responses.shift();
+    if (!response) {
+      throw new Error("Unexpected request.");
+    }
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  }) as typeof globalThis.fetch;
+
+  return { fetch, calls };
+}
+
+/**
+ * A fetch function that never responds and rejects once the request is aborted, like fetch does.
+ */
+const pendingFetch = ((_url: string, init: RequestInit) =>
+  new Promise((_resolve, reject) => {
+    const signal = init.signal!;
+    if (signal.aborted) {
+      reject(signal.reason);
+    }
+    signal.addEventListener("abort", () => reject(signal.reason));
+  })) as typeof fetch;
+
+/**
+ * A response that sends the first part of its body and then stalls.
+ */
+function stalledResponse(): Response {
+  return new Response(new ReadableStream({ start: (controller) => controller.enqueue(new TextEncoder().encode('{"items":')) }));
+}
+
+function settings(overrides: Partial<SendRequestSettings>): SendRequestSettings {
+  return { fetch: pendingFetch, idempotent: true, retry: NO_DELAY, ...overrides };
+}
+
+describe("sendRequest", () => {
+  it("retries transient failures of idempotent requests", async () => {
+    const { fetch, calls } = mockFetch(new Response(null, { status: 503 }), new TypeError("fetch failed"), Response.json({ ok: true }));
+
+    const response = await sendRequest(REQUEST, settings({ fetch }));
+
+    assert.deepEqual(await response.json(), { ok: true });
+    assert.equal(calls.length, 3);
+  });
+
+  it("throws the last failure once all attempts are used", async () => {
+    const { fetch, calls } = mockFetch(new Response(null, { status: 502 }), new Response(null, { status: 502 }));
+
+    await assert.rejects(sendRequest(REQUEST, settings({ fetch, retry: { ...NO_DELAY, maxAttempts: 2 } })), { status: 502 });
+    assert.equal(calls.length, 2);
+  });
+
+  it("only retries rate limited requests if they aren't idempotent", async () => {
+    const failed = mockFetch(new Response(null, { status: 503 }));
+    await assert.rejects(sendRequest(REQUEST, settings({ fetch: failed.fetch, idempotent: false })), ContentCloudApiError);
+    assert.equal(failed.calls.length, 1);
+
+    const limited = mockFetch(new Response(null, { status: 429, headers: { "Retry-After": "0" } }), new Response("{}"));
+    await sendRequest(REQUEST, settings({ fetch: limited.fetch, idempotent: false }));
+    assert.equal(limited.calls.length, 2);
+  });
+
+  it("doesn't retry if retries are disabled", async () => {
+    const { fetch, calls } = mockFetch(new Response(null, { status: 503 }));
+
+    await assert.rejects(sendRequest(REQUEST, settings({ fetch, retry: false })), { status: 503 });
+    assert.equal(calls.length, 1);
+  });
+
+  it("throws a ContentCloudTimeoutError once the timeout is exceeded", async () => {
+    await assert.rejects(sendRequest(REQUEST, settings({ timeout: 10 })), ContentCloudTimeoutError);
+  });
+
+  it("throws a ContentCloudAbortError with the reason if the caller aborts", async () => {
+    const controller = new AbortController();
+    const request = sendRequest(REQUEST, settings({ signal: controller.signal }));
+    controller.abort("navigated away");
+
+    await assert.rejects(request, (error) => {
+      assert.ok(error instanceof ContentCloudAbortError);
+      assert.ok(!(error instanceof ContentCloudTimeoutError));
+      assert.equal(error.reason, "navigated away");
+      return true;
+    });
+  });
+
+  it("applies the timeout while the body is read", async () => {
+    const { fetch } = mockFetch(stalledResponse());
+    const response = await sendRequest(REQUEST, settings({ fetch, timeout: 20 }));
+
+    await assert.rejects(response.json(), ContentCloudTimeoutError);
+  });
+
+  it("aborts reading the body if the caller aborts", async () => {
+    const controller = new AbortController();
+    const { fetch } = mockFetch(stalledResponse());
+    const response = await sendRequest(REQUEST, settings({ fetch, signal: controller.signal }));
+    setTimeout(() => controller.abort("navigated away"), 10);
+
+    await assert.rejects(response.text(), { name: "ContentCloudAbortError", reason: "navigated away" });
+  });
+
+  it("keeps the body of responses that are read in time", async () => {
+    const { fetch } = mockFetch(Response.json({ items: [] }, { headers: { "X-Request-Id": "1" } }));
+    const response = await sendRequest(REQUEST, settings({ fetch, timeout: 1_000 }));
+
+    assert.deepEqual(await response.json(), { items: [] });
+    assert.equal(response.headers.get("X-Request-Id"), "1");
+  });
+
+  it("requests a new token once if the token is rejected", async () => {
+    const tokens = ["expired", "fresh"];
+    const { fetch, calls } = mockFetch(new Response(null, { status: 401 }), new Response("{}"));
+
+    await sendRequest(REQUEST, settings({ fetch, tokens: new ContentCloudTokenManager(() => tokens.shift()!) }));
+
+    assert.deepEqual(
+      calls.map((call) => call.headers.Authorization),
+      ["Bearer expired", "Bearer fresh"],
+    );
+  });
+
+  it("doesn't retry a rejected static token", async () => {
+    const { fetch, calls } = mockFetch(new Response(null, { status: 401 }));
+
+    await assert.rejects(sendRequest(REQUEST, settings({ fetch, tokens: new ContentCloudTokenManager("static") })), { status: 401 });
+    assert.equal(calls.length, 1);
+  });
+
+  it("runs the middleware around the request and lets it recover from errors", async () => {
+    const order: string[] = [];
+    const { fetch, calls } = mockFetch(new Response(null, { status: 404 }));
+
+    const response = await sendRequest(
+      REQUEST,
+      settings({
+        fetch,
+        middleware: [
+          {
+            beforeRequest: (request) => {
+              order.push("before 1");
+              request.headers["X-Trace"] = "1";
+            },
+            afterResponse: () => {
+              order.push("after 1");
+            },
+          },
+          {
+            beforeRequest: () => {
+              order.push("before 2");
+            },
+            onError: () => {
+              order.push("error 2");
+              return Response.json({ recovered: true });
+            },
+          },
+        ],
+      }),
+    );
+
+    assert.deepEqual(await response.json(), { recovered: true });
+    assert.deepEqual(order, ["before 1", "before 2", "error 2", "after 1"]);
+    assert.equal(calls[0]!.headers["X-Trace"], "1");
+    assert.deepEqual(REQUEST.headers, {});
+  });
+});
+
+describe("getRetryDelay", () => {
+  const options = { ...DEFAULT_RETRY_OPTIONS, jitter: false };
+
+  it("backs off exponentially up to the maximum delay", () => {
+    assert.equal(getRetryDelay(1, options), 250);
+    assert.equal(getRetryDelay(2, options), 500);
+    assert.equal(getRetryDelay(2, { ...options, maxDelay: 300 }), 300);
+    assert.equal(getRetryDelay(3, options), undefined);
+  });
+
+  it("honours the Retry-After header unless it exceeds the maximum", () => {
+    const response = (retryAfter: string) => new Response(null, { status: 429, headers: { "Retry-After": retryAfter } });
+
+    assert.equal(getRetryDelay(1, options, response("2")), 2_000);
+    assert.equal(getRetryDelay(1, options, response("120")), undefined);
+    assert.equal(getRetryDelay(1, { ...options, respectRetryAfter: false }, response("120")), 250);
+  });
+});
+
+describe("readJsonBody", () => {
+  it("parses the body", async () => {
+    assert.deepEqual(await readJsonBody(Response.json({ id: "1" })), { id: "1" });
+  });
+
+  it("returns undefined for empty bodies of any status", async () => {
+    assert.equal(await readJsonBody(new Response(null, { status: 204 })), undefined);
+    assert.equal(await readJsonBody(new Response("", { status: 202 })), undefined);
+    assert.equal(await readJsonBody(new Response(" \n", { status: 200 })), undefined);
+  });
+});
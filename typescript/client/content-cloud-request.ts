@@ -0,0 +1,413 @@
+import { CacheLifetime } from "./content-cloud-cache";
+import { ContentCloudAbortError, ContentCloudApiError, ContentCloudTimeoutError, parseRetryAfter } from "./content-cloud-errors";
+import { ContentCloudTokenManager } from "./content-cloud-token-manager";
+
+/**
+ * Options to configure how failed requests are retried.
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts, including the first one. Set to 1 to disable retries.
+   */
+  maxAttempts?: number;
+  /**
+   * The delay before the first retry in milliseconds. Doubled (see `factor`) for every following retry.
+   */
+  initialDelay?: number;
+  /**
+   * The maximum delay between two attempts in milliseconds.
+   */
+  maxDelay?: number;
+  /**
+   * The factor to multiply the delay with after every attempt.
+   */
+  factor?: number;
+  /**
+   * Whether to randomize the delay between 0 and the computed backoff ("full jitter") to avoid retry storms.
+   */
+  jitter?: boolean;
+  /**
+   * The HTTP status codes that are considered transient and will be retried.
+   */
+  retryOn?: number[];
+  /**
+   * Whether to wait for the duration given by the Retry-After header instead of the computed backoff.
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * If the Retry-After header asks to wait longer than this many milliseconds, the request fails immediately instead.
+   */
+  maxRetryAfter?: number;
+}
+
+/**
+ * The retry options used if none are provided.
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelay: 250,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  maxRetryAfter: 60_000,
+};
+
+/**
+ * Options that can be provided per request to any client method.
+ */
+export interface ClientRequestOptions {
+  /**
+   * Whether the request can safely be repeated without side effects. GET requests and GraphQL queries are always
+   * idempotent. Non-idempotent requests are only retried if the server rejected them before processing (429).
+   */
+  idempotent?: boolean;
+  /**
+   * Overwrite the retry options of the client for this request. Pass `false` to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * A signal to abort the request, e.g. when the user navigates away. Aborted requests throw a ContentCloudAbortError.
+   */
+  signal?: AbortSignal;
+  /**
+   * Overwrite the timeout of the client for this request in milliseconds, including all retries and reading the
+   * response body. Pass 0 to disable the timeout. Requests that time out throw a ContentCloudTimeoutError.
+   */
+  timeout?: number;
+  /**
+   * Overwrite how long the response is cached, if the client uses a cache. Pass `false` to bypass the cache.
+   * Only applies to GET requests and GraphQL queries.
+   */
+  cache?: CacheLifetime | false;
+}
+
+/**
+ * A request to send to the Content Cloud.
+ */
+export interface ContentCloudRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Hooks to observe or change the requests of a client, e.g. to add custom headers, tracing IDs, logging or to rewrite
+ * responses. Register them with the `middleware` option of a client.
+ *
+ * `beforeRequest` runs in the order of the middleware, `afterResponse` and `onError` in reverse order. The hooks run
+ * once per request, not per retry. Responses served from a cache don't send a request, so no hooks run for them.
+ */
+export interface ContentCloudMiddleware {
+  /**
+   * Called before the request is sent. Change the request or return a new one to send instead. The Authorization
+   * header is added afterward.
+   */
+  beforeRequest?(request: ContentCloudRequest): ContentCloudRequest | void | Promise<ContentCloudRequest | void>;
+  /**
+   * Called with the successful response. Return a new response to rewrite it.
+   */
+  afterResponse?(response: Response, request: ContentCloudRequest): Response | void | Promise<Response | void>;
+  /**
+   * Called if the request failed after the last attempt. Return a response to recover from the error, otherwise the
+   * error is thrown. Once a response is returned, the following middleware isn't called for the error and the response
+   * is passed to `afterResponse` like a successful one.
+   */
+  onError?(error: unknown, request: ContentCloudRequest): Response | void | Promise<Response | void>;
+}
+
+/**
+ * The settings for sending a request, combined from the client options and the per-request options.
+ */
+export interface SendRequestSettings {
+  fetch: typeof fetch;
+  retry?: RetryOptions | false;
+  idempotent: boolean;
+  signal?: AbortSignal;
+  timeout?: number;
+  /**
+   * Provides the access token for the Authorization header. Tokens rejected with a 401 are refreshed once.
+   */
+  tokens?: ContentCloudTokenManager;
+  /**
+   * The middleware to run for the request.
+   */
+  middleware?: ContentCloudMiddleware[];
+}
+
+/**
+ * Read the JSON body of a response. Responses without a body, e.g. to DELETE requests with 200, 202 or 204, return
+ * undefined instead of failing to parse.
+ *
+ * @param {Response} response The response to read.
+ * @returns {Promise<ResponseBodyType | undefined>} The parsed body or undefined if it's empty.
+ *
+ * @template ResponseBodyType The type of the response body.
+ */
+export async function readJsonBody<ResponseBodyType>(response: Response): Promise<ResponseBodyType | undefined> {
+  const text = await response.text();
+  return text.trim() ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Get the delay before the next attempt in milliseconds.
+ *
+ * @param {number} attempt The number of the attempt that just failed, starting at 1.
+ * @param {Required<RetryOptions>} options The retry options to use.
+ * @param {Response} [response] The failed response, if any. Used to read the Retry-After header.
+ * @returns {number | undefined} The delay in milliseconds or undefined if the request must not be retried.
+ */
+export function getRetryDelay(attempt: number, options: Required<RetryOptions>, response?: Response): number | undefined {
+  if (attempt >= options.maxAttempts) {
+    return undefined;
+  }
+
+  if (options.respectRetryAfter && response) {
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== undefined) {
+      const delay = retryAfter * 1_000;
+      return delay > options.maxRetryAfter ? undefined : delay;
+    }
+  }
+
+  const backoff = Math.min(options.maxDelay, options.initialDelay * Math.pow(options.factor, attempt - 1));
+  return options.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Wait for the given number of milliseconds. Rejects as soon as the signal is aborted.
+ *
+ * @param {number} ms The number of milliseconds to wait.
+ * @param {AbortSignal} signal The signal to stop waiting.
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Send a request to the Content Cloud, running the middleware around it.
+ *
+ * @param {ContentCloudRequest} request The request to send.
+ * @param {SendRequestSettings} settings The settings to use for sending the request.
+ * @returns {Promise<Response>} The successful response or the response returned by the middleware.
+ * @throws {ContentCloudApiError} If the response has a non-2xx status code after the last attempt.
+ * @throws {ContentCloudAbortError} If the request was aborted or timed out.
+ */
+export async function sendRequest(request: ContentCloudRequest, settings: SendRequestSettings): Promise<Response> {
+  const middleware = settings.middleware ?? [];
+  if (!middleware.length) {
+    return sendWithRetries(request, settings);
+  }
+
+  // Copy the headers, so the middleware can change them without affecting the caller.
+  request = { ...request, headers: { ...request.headers } };
+  for (const { beforeRequest } of middleware) {
+    request = (await beforeRequest?.(request)) ?? request;
+  }
+
+  const reversed = [...middleware].reverse();
+  let response: Response;
+  try {
+    response = await sendWithRetries(request, settings);
+  } catch (error) {
+    let recovered: Response | void = undefined;
+    for (const { onError } of reversed) {
+      recovered = await onError?.(error, request);
+      if (recovered) {
+        break;
+      }
+    }
+    if (!recovered) {
+      throw error;
+    }
+    response = recovered;
+  }
+
+  for (const { afterResponse } of reversed) {
+    response = (await afterResponse?.(response, request)) ?? response;
+  }
+  return response;
+}
+
+/**
+ * Send a request to the Content Cloud, retrying transient failures according to the retry options.
+ *
+ * Responses with a status code from `retryOn` are retried if the request is idempotent. 429 responses are always
+ * retried as the server didn't process the request. Network errors are only retried for idempotent requests as
+ * it's unknown whether the server received them.
+ *
+ * The timeout applies to all attempts together and ends once the body of the successful response is read. Until then,
+ * reading the body fails with a ContentCloudTimeoutError or ContentCloudAbortError once the timeout or the signal fires.
+ *
+ * If a token manager is provided, its token is sent as the Authorization header. If the token is rejected with a 401
+ * and can be refreshed, the request is sent once more with a new token.
+ *
+ * @param {ContentCloudRequest} request The request to send.
+ * @param {SendRequestSettings} settings The settings to use for sending the request.
+ * @returns {Promise<Response>} The successful response.
+ * @throws {ContentCloudApiError} If the response has a non-2xx status code after the last attempt.
+ * @throws {ContentCloudAbortError} If the request was aborted or timed out.
+ */
+async function sendWithRetries(request: ContentCloudRequest, settings: SendRequestSettings): Promise<Response> {
+  const retry: Required<RetryOptions> =
+    settings.retry === false ? { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 } : { ...DEFAULT_RETRY_OPTIONS, ...settings.retry };
+
+  if (settings.signal?.aborted) {
+    throw new ContentCloudAbortError(request.method, request.url, settings.signal.reason);
+  }
+
+  // Combine the signal of the caller with the timeout, so both cancel any pending fetch or retry delay.
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(settings.signal?.reason);
+  settings.signal?.addEventListener("abort", onAbort, { once: true });
+  let timedOut = false;
+  const timer = settings.timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, settings.timeout)
+    : undefined;
+
+  const release = () => {
+    clearTimeout(timer);
+    settings.signal?.removeEventListener("abort", onAbort);
+  };
+  const getAbortError = () =>
+    timedOut
+      ? new ContentCloudTimeoutError(request.method, request.url, settings.timeout!)
+      : new ContentCloudAbortError(request.method, request.url, settings.signal?.reason);
+
+  let refreshed = false;
+  let guarded = false;
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const token = await settings.tokens?.getToken();
+      let response: Response;
+      try {
+        response = await settings.fetch(request.url, {
+          method: request.method,
+          headers: token ? { ...request.headers, Authorization: `Bearer ${token}` } : request.headers,
+          body: request.body,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw error;
+        }
+
+        const delay = settings.idempotent ? getRetryDelay(attempt, retry) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+
+        await sleep(delay, controller.signal);
+        continue;
+      }
+
+      if (response.ok) {
+        guarded = true;
+        return guardBody(response, controller.signal, getAbortError, release);
+      }
+
+      if (response.status === 401 && token && settings.tokens?.refreshable && !refreshed) {
+        // The token may have been revoked or expired early, so request a new one. This doesn't count as an attempt.
+        refreshed = true;
+        settings.tokens.invalidate(token);
+        await response.body?.cancel();
+        attempt--;
+        continue;
+      }
+
+      const retryable = retry.retryOn.includes(response.status) && (settings.idempotent || response.status === 429);
+      const delay = retryable ? getRetryDelay(attempt, retry, response) : undefined;
+      if (delay === undefined) {
+        throw await ContentCloudApiError.fromResponse(response, request.method, request.url);
+      }
+
+      await response.body?.cancel();
+      await sleep(delay, controller.signal);
+    }
+  } catch (error) {
+    if (timedOut || (controller.signal.aborted && !(error instanceof ContentCloudApiError))) {
+      throw getAbortError();
+    }
+
+    throw error;
+  } finally {
+    if (!guarded) {
+      release();
+    }
+  }
+}
+
+/**
+ * Keep the timeout and the signal of the caller in effect while the body of the response is read. The body fails with
+ * the error of `getAbortError` once the signal is aborted, even if the fetch implementation doesn't stop reading.
+ *
+ * @param {Response} response The successful response.
+ * @param {AbortSignal} signal The signal that combines the timeout and the signal of the caller.
+ * @param {() => ContentCloudApiError} getAbortError Creates the error to fail the body with.
+ * @param {() => void} release Stops the timeout and the signal once the body is read, failed or canceled.
+ * @returns {Response} The response with the guarded body.
+ */
+function guardBody(response: Response, signal: AbortSignal, getAbortError: () => ContentCloudApiError, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let onAbort = () => {};
+  const finish = () => {
+    signal.removeEventListener("abort", onAbort);
+    release();
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      onAbort = () => {
+        controller.error(getAbortError());
+        reader.cancel().catch(() => {});
+        finish();
+      };
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        finish();
+        controller.error(signal.aborted ? getAbortError() : error);
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -1,5 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { CollectionResponse, ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+import { ContentCloudResponseCache } from "./content-cloud-cache";
+import { PageRequest, PaginatedCollection, PaginationOptions } from "./content-cloud-pagination";
+import { ContentCloudNotFoundError } from "./content-cloud-errors";
+import { ClientRequestOptions, ContentCloudMiddleware, RetryOptions } from "./content-cloud-request";
+import { CollectionResponse, ContentCloudSystemRestClient, ContentRequestOptions } from "./content-cloud-system-rest-client";
+import { AccessTokenSource, ContentCloudTokenManager, parseJwt } from "./content-cloud-token-manager";
+import { ContentCloudSchemaValidationError, ContentCloudSchemaValidator, ValidationIssue } from "./content-cloud-validator";
 import { AnyIndependentEntry, ContentTypes, ContentUserDataTypes, Entry, EntryLink } from "./rest-schema";
 
 export type RestListResponse<ItemType extends object = AnyIndependentEntry> = CollectionResponse<ItemType>;
@@ -175,6 +181,16 @@ export type RestRequestOptionEmbed = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
 export type RestRequestOptionIncludeDefaultValue = 1;
 export type RestRequestOptionEmbedDefaultValue = 1;
 
+/**
+ * Request options for any content type, as accepted by the implementation of `contentCollection`.
+ */
+type UntypedRestRequestOptions = RestRequestOptions & {
+  content_type?: string;
+  select?: string[];
+  order?: string[];
+  filter?: object;
+};
+
 /**
  * Typed request options if the content type is known in advance.
  * This just overwrites base properties.
@@ -196,39 +212,78 @@ export type TypedRestRequestOptions<
   embed?: Embed;
 };
 
+/**
+ * Request options for a collection of the current user's user data of one type.
+ *
+ * @template TypeName The type of user data to request. Must be a key of ContentUserDataTypes.
+ */
+export interface ContentUserDataCollectionOptions<TypeName extends keyof ContentUserDataTypes> {
+  skip?: number;
+  limit?: number;
+  filter?: ContentUserDataTypes[TypeName]["Filter"];
+  order?: string[];
+}
+
 /**
  * Available options for the REST client.
  * This is used to configure the client when creating an instance.
  */
 interface RestClientOptions {
   baseUrl?: string;
-  accessToken?: string;
+  /**
+   * The access token, a function providing it or a token manager shared with other clients.
+   * The spaceId and environmentId are only read from static tokens, so provide them explicitly when using a function.
+   */
+  accessToken?: AccessTokenSource;
   spaceId?: string;
   environmentId?: string;
   apiVersion?: string;
   fetch?: typeof fetch;
-}
-
-/**
- * Parses a JWT token to return the payload.
- * !!! THIS DOES NOT VALIDATE THE TOKEN !!!
- *
- * @param {string} token The JWT token to parse.
- * @returns {Record<string, any>} The parsed payload of the token.
- */
-function parseJwt(token: string) {
-  const base64Url = token.split(".")[1]!;
-  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-  const jsonPayload = decodeURIComponent(
-    atob(base64)
-      .split("")
-      .map(function (c) {
-        return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
-      })
-      .join(""),
-  );
-
-  return JSON.parse(jsonPayload);
+  /**
+   * How to retry failed requests. Uses the DEFAULT_RETRY_OPTIONS if not provided. Pass `false` to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * The default timeout for requests in milliseconds, including all retries. Requests won't time out if not provided.
+   */
+  timeout?: number;
+  /**
+   * The cache to use for GET requests. Responses won't be cached if not provided.
+   */
+  cache?: ContentCloudResponseCache;
+  /**
+   * Validate data against the content types of the space, which are loaded once on first use, e.g. during
+   * development. User data is rejected with a ContentCloudSchemaValidationError before it's sent. Content responses
+   * that don't match their content types are reported with `onValidationIssues`, or rejected with a
+   * ContentCloudSchemaValidationError if it isn't provided. Pass a validator to reuse loaded content types.
+   * The content types are loaded with the access token of the client, which requires the
+   * `permission:content-type:read` scope. Disabled by default.
+   */
+  validate?: boolean | ContentCloudSchemaValidator;
+  /**
+   * Called with the issues of a content response that doesn't match its content types, e.g. to log or collect them
+   * instead of failing the request.
+   */
+  onValidationIssues?: (issues: ValidationIssue[], contentType?: string) => void;
+  /**
+   * Load drafts from the preview service instead of published content. Requests are sent to the previewBaseUrl and
+   * are never cached, and every entry includes `sys.isPublished` to tell drafts apart. The access token requires the
+   * `permission:preview` scope and the `service:preview` service.
+   */
+  preview?: boolean;
+  /**
+   * The base URL of the preview service. Defaults to the CC_PREVIEW_BASE_URL environment variable.
+   */
+  previewBaseUrl?: string;
+  /**
+   * The middleware to run for every request, e.g. to add custom headers, tracing IDs or to log requests.
+   */
+  middleware?: ContentCloudMiddleware[];
+  /**
+   * Other origins that serve asset files and require the access token, e.g. `https://assets.example.com`. Downloads
+   * from any other host than the base URL are sent without the token.
+   */
+  assetHosts?: string[];
 }
 
 const FILTER_NAMES = ["in", "nin", "match", "all", "some", "none", "exists", "ne", "lt", "gt", "lte", "gte"];
@@ -289,6 +344,20 @@ export class ContentCloudRestClient {
    */
   protected readonly token?: Record<string, any>;
 
+  /**
+   * The validator, loaded on first use if validation is enabled.
+   * @private
+   */
+  private validator?: Promise<ContentCloudSchemaValidator>;
+
+  /**
+   * Provides the access token for all requests of this client and its system client, if any.
+   * Pass it as the accessToken of the GraphQL client to share the token.
+   */
+  public get tokens(): ContentCloudTokenManager | undefined {
+    return this.system.tokens;
+  }
+
   /**
    * The space ID of the given JWT.
    */
@@ -307,6 +376,12 @@ export class ContentCloudRestClient {
   public get baseUrl(): string {
     return this.options.baseUrl!;
   }
+  /**
+   * Whether the client loads drafts from the preview service.
+   */
+  public get preview(): boolean {
+    return !!this.options.preview;
+  }
 
   /**
    * The constructor for the ContentCloudRestClient.
@@ -330,6 +405,18 @@ export class ContentCloudRestClient {
       throw new Error("baseUrl must not end with a slash.");
     }
 
+    if (this.options.preview) {
+      if (!this.options.previewBaseUrl && typeof process === "object") {
+        this.options.previewBaseUrl = process.env.CC_PREVIEW_BASE_URL;
+      }
+      if (!this.options.previewBaseUrl) {
+        throw new Error("previewBaseUrl is required in preview mode.");
+      }
+      if (this.options.previewBaseUrl.endsWith("/")) {
+        throw new Error("previewBaseUrl must not end with a slash.");
+      }
+    }
+
     // if the access token is not provided, we try to set it from the environment variable
     if (!this.options.accessToken) {
       if (typeof process === "object") {
@@ -338,7 +425,7 @@ export class ContentCloudRestClient {
     }
 
     // parse the token if it is provided to access the spaceId and environmentId
-    this.token = this.options.accessToken && parseJwt(this.options.accessToken);
+    this.token = typeof this.options.accessToken === "string" ? parseJwt(this.options.accessToken) : undefined;
 
     const scopes = Array.isArray(this.token?.scope) ? this.token.scope : this.token?.scope?.split(" ");
 
@@ -366,31 +453,181 @@ export class ContentCloudRestClient {
     }
 
     this.system = new ContentCloudSystemRestClient({
-      baseUrl: this.options.baseUrl,
+      baseUrl: this.options.preview ? this.options.previewBaseUrl! : this.options.baseUrl,
       accessToken: this.options.accessToken,
       spaceId: this.options.spaceId,
       environmentId: this.options.environmentId,
       fetch: this.options.fetch,
+      retry: this.options.retry,
+      timeout: this.options.timeout,
+      // Drafts change with every edit, so preview responses are never cached.
+      cache: this.options.preview ? undefined : this.options.cache,
+      middleware: this.options.middleware,
+      assetHosts: this.options.assetHosts,
+    });
+  }
+
+  /**
+   * Create a copy of this client that loads drafts from the preview service, e.g. to render a draft preview of your
+   * website. All other options are kept.
+   *
+   * @param {AccessTokenSource} accessToken The preview token with the `permission:preview` scope.
+   * @param {string} [previewBaseUrl] The base URL of the preview service, if it isn't configured yet.
+   * @returns {ContentCloudRestClient} The preview client.
+   */
+  withPreview(accessToken: AccessTokenSource, previewBaseUrl?: string): ContentCloudRestClient {
+    return new ContentCloudRestClient({
+      ...this.options,
+      accessToken,
+      preview: true,
+      previewBaseUrl: previewBaseUrl ?? this.options.previewBaseUrl,
     });
   }
 
+  /**
+   * Get the validator if validation is enabled, loading the content types on first use.
+   *
+   * @param {ClientRequestOptions} [requestOptions] Options for the requests to load the content types.
+   * @returns {Promise<ContentCloudSchemaValidator | undefined>} The validator or undefined if validation is disabled.
+   */
+  protected async getValidator(requestOptions?: ClientRequestOptions): Promise<ContentCloudSchemaValidator | undefined> {
+    const validate = this.options.validate;
+    if (!validate) {
+      return undefined;
+    }
+    if (validate instanceof ContentCloudSchemaValidator) {
+      return validate;
+    }
+
+    if (!this.validator) {
+      this.validator = ContentCloudSchemaValidator.load(this.system, requestOptions);
+      // Allow retrying if the content types couldn't be loaded.
+      this.validator.catch(() => (this.validator = undefined));
+    }
+    return this.validator;
+  }
+
   /**
    * Update the user data for a given content entry.
+   * As the provided data replaces the previous values, the request is safe to retry.
+   * If validation is enabled, the data is checked against the user data content type before it's sent.
    *
    * @template TypeName The type of user data to update. Must be a key of ContentUserDataTypes.
    *
    * @param {string} contentId The ID of the content entry to update.
    * @param {keyof ContentUserDataTypes} type The type of user data to update.
    * @param {ContentUserDataTypes[TypeName]["Update"]} data The data to update.
+   * @param {ClientRequestOptions} [requestOptions] Options for this request, e.g. an AbortSignal.
    */
   async setContentUserData<TypeName extends keyof ContentUserDataTypes & string>(
     contentId: string,
     type: TypeName,
     data: ContentUserDataTypes[TypeName]["Update"],
+    requestOptions?: ClientRequestOptions,
   ): Promise<ContentUserDataTypes[TypeName]["Entry"]> {
-    return await this.system.post(`/entries/${contentId}/user_data/${type}`, {
-      fields: data,
-    });
+    const validator = await this.getValidator(requestOptions);
+    const report = validator?.validateFields(type, data as Record<string, any>, { path: ["fields"] });
+    if (report && !report.valid) {
+      throw new ContentCloudSchemaValidationError("POST", `${this.baseUrl}/entries/${contentId}/user_data/${type}`, report.issues);
+    }
+
+    return await this.system.post(
+      `/entries/${contentId}/user_data/${type}`,
+      {
+        fields: data,
+      },
+      { idempotent: true, ...requestOptions },
+    );
+  }
+
+  /**
+   * Get the user data of the current user for a given content entry.
+   * User data is specific to the user, so the response is never cached.
+   *
+   * @template TypeName The type of user data to get. Must be a key of ContentUserDataTypes.
+   *
+   * @param {string} contentId The ID of the content entry.
+   * @param {keyof ContentUserDataTypes} type The type of user data to get.
+   * @param {ClientRequestOptions} [requestOptions] Options for this request, e.g. an AbortSignal.
+   * @return {Promise<ContentUserDataTypes[TypeName]["Entry"] | null>} The user data or null if the user has none for the entry.
+   */
+  async getContentUserData<TypeName extends keyof ContentUserDataTypes & string>(
+    contentId: string,
+    type: TypeName,
+    requestOptions?: ClientRequestOptions,
+  ): Promise<ContentUserDataTypes[TypeName]["Entry"] | null> {
+    try {
+      return await this.system.get<ContentUserDataTypes[TypeName]["Entry"]>(
+        `/entries/${contentId}/user_data/${type}`,
+        undefined,
+        requestOptions,
+      );
+    } catch (error) {
+      if (error instanceof ContentCloudNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a collection of the current user's user data of the given type, e.g. all favorites.
+   *
+   * @template TypeName The type of user data to request. Must be a key of ContentUserDataTypes.
+   *
+   * @param {keyof ContentUserDataTypes} type The type of user data to request.
+   * @param {ContentUserDataCollectionOptions} [options] The pagination, filter and order to use for the request.
+   * @param {ClientRequestOptions} [requestOptions] Options for this request, e.g. an AbortSignal.
+   * @return {Promise<RestListResponse<ContentUserDataTypes[TypeName]["Entry"]>>} The response from the request.
+   */
+  async contentUserDataCollection<TypeName extends keyof ContentUserDataTypes & string>(
+    type: TypeName,
+    options?: ContentUserDataCollectionOptions<TypeName>,
+    requestOptions?: ClientRequestOptions,
+  ): Promise<RestListResponse<ContentUserDataTypes[TypeName]["Entry"]>> {
+    const params: Record<string, any> = {};
+
+    if (typeof options?.skip === "number") {
+      params.skip = options.skip.toString();
+    }
+
+    if (typeof options?.limit === "number") {
+      params.limit = options.limit.toString();
+    }
+
+    if (options?.order?.length) {
+      params.order = options.order.join(",");
+    }
+
+    if (options?.filter) {
+      Object.assign(params, flattenFilter(options.filter));
+    }
+
+    return await this.system.query("user_data", type, params, requestOptions);
+  }
+
+  /**
+   * Delete the user data of the current user for a given content entry.
+   * Deleting user data that doesn't exist has no effect.
+   *
+   * @template TypeName The type of user data to delete. Must be a key of ContentUserDataTypes.
+   *
+   * @param {string} contentId The ID of the content entry.
+   * @param {keyof ContentUserDataTypes} type The type of user data to delete.
+   * @param {ClientRequestOptions} [requestOptions] Options for this request, e.g. an AbortSignal.
+   */
+  async deleteContentUserData<TypeName extends keyof ContentUserDataTypes & string>(
+    contentId: string,
+    type: TypeName,
+    requestOptions?: ClientRequestOptions,
+  ): Promise<void> {
+    try {
+      await this.system.delete(`/entries/${contentId}/user_data/${type}`, requestOptions);
+    } catch (error) {
+      if (!(error instanceof ContentCloudNotFoundError)) {
+        throw error;
+      }
+    }
   }
 
   /**
@@ -402,6 +639,7 @@ export class ContentCloudRestClient {
    * @template TypeName The type of content to request. Must be a key of ContentTypes.
    *
    * @param {TypedRestRequestOptions} options The options to use for the request.
+   * @param {ContentRequestOptions} [requestOptions] Options for sending the request, e.g. an AbortSignal or whether to apply locale fallbacks.
    * @return {Promise<RestListResponse>} The response from the request.
    */
   async contentCollection<
@@ -411,22 +649,35 @@ export class ContentCloudRestClient {
     Select extends RestSelectOptions<EntryWithLinks<ContentTypes[TypeName]["Entry"]>> & string,
   >(
     options: TypedRestRequestOptions<TypeName, Select, Include, Embed>,
+    requestOptions?: ContentRequestOptions,
   ): Promise<RestListResponse<RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>>>;
   async contentCollection<
     TypeName extends keyof ContentTypes & string,
     Select extends RestSelectOptions<EntryWithLinks<ContentTypes[TypeName]["Entry"]>> & string,
   >(
     options: TypedRestRequestOptions<TypeName, Select>,
+    requestOptions?: ContentRequestOptions,
   ): Promise<RestListResponse<RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>>>;
-  async contentCollection(options?: Omit<RestRequestOptions, "content_type">): Promise<RestListResponse>;
   async contentCollection(
-    options?: RestRequestOptions & {
-      content_type?: string;
-      select?: string[];
-      order?: string[];
-      filter?: object;
-    },
-  ): Promise<RestListResponse> {
+    options?: Omit<RestRequestOptions, "content_type">,
+    requestOptions?: ContentRequestOptions,
+  ): Promise<RestListResponse>;
+  async contentCollection(options?: UntypedRestRequestOptions, requestOptions?: ContentRequestOptions): Promise<RestListResponse> {
+    return this.requestContentCollection(options, requestOptions);
+  }
+
+  /**
+   * Request a collection of content entries with options of any content type, for `contentCollection` and
+   * `contentCollectionIterator`.
+   *
+   * @param {UntypedRestRequestOptions} [options] The options to use for the request.
+   * @param {ContentRequestOptions} [requestOptions] Options for sending the request.
+   * @return {Promise<RestListResponse<any>>} The response from the request.
+   */
+  private async requestContentCollection(
+    options?: UntypedRestRequestOptions,
+    requestOptions?: ContentRequestOptions,
+  ): Promise<RestListResponse<any>> {
     const params: Record<string, any> = {};
 
     if (options?.locale) {
@@ -454,7 +705,10 @@ export class ContentCloudRestClient {
     }
 
     if (options?.select?.length) {
-      params.select = options.select.join(",");
+      // Drafts and published entries are told apart by their state, so it's always selected in preview mode.
+      const select =
+        this.options.preview && !options.select.includes("sys.isPublished") ? [...options.select, "sys.isPublished"] : options.select;
+      params.select = select.join(",");
     }
 
     if (options?.order?.length) {
@@ -486,6 +740,87 @@ export class ContentCloudRestClient {
       params.user_data_types = options.user_data_types.join(",");
     }
 
-    return await this.system.contentCollection<any>(params);
+    const response = await this.system.contentCollection<any>(params, requestOptions);
+
+    if (this.options.validate) {
+      await this.checkResponse(response, options?.content_type, !!options?.select?.length, requestOptions);
+    }
+
+    return response;
+  }
+
+  /**
+   * Check a content response against the content types and report the issues with `onValidationIssues`.
+   *
+   * @param {object} response The response to check.
+   * @param {string} [contentType] The requested content type, passed to `onValidationIssues`.
+   * @param {boolean} partial Whether fields were selected, so required fields may be missing.
+   * @param {ClientRequestOptions} [requestOptions] Options for the requests to load the content types.
+   * @throws {ContentCloudSchemaValidationError} If the response doesn't match and `onValidationIssues` isn't provided.
+   */
+  private async checkResponse(
+    response: Record<string, any>,
+    contentType: string | undefined,
+    partial: boolean,
+    requestOptions?: ClientRequestOptions,
+  ): Promise<void> {
+    const validator = await this.getValidator(requestOptions);
+    const report = validator?.validateResponse(response, { partial });
+    if (!report || report.valid) {
+      return;
+    }
+
+    if (!this.options.onValidationIssues) {
+      throw new ContentCloudSchemaValidationError("GET", `${this.baseUrl}/entries`, report.issues);
+    }
+    this.options.onValidationIssues(report.issues, contentType);
+  }
+
+  /**
+   * Iterate over all content entries matching the options, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses. The entries are
+   * typed the same way as for `contentCollection`.
+   *
+   * @template TypeName The type of content to request. Must be a key of ContentTypes.
+   *
+   * @param {TypedRestRequestOptions} options The options to use for the requests. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [paginationOptions] Options to limit the number of items, prefetch pages and for each request.
+   * @return {PaginatedCollection} The iterable collection.
+   */
+  contentCollectionIterator<
+    TypeName extends keyof ContentTypes & string,
+    Include extends RestRequestOptionInclude,
+    Embed extends RestRequestOptionEmbed,
+    Select extends RestSelectOptions<EntryWithLinks<ContentTypes[TypeName]["Entry"]>> & string,
+  >(
+    options: TypedRestRequestOptions<TypeName, Select, Include, Embed>,
+    paginationOptions?: PaginationOptions,
+  ): PaginatedCollection<
+    RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>,
+    RestListResponse<RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>>
+  >;
+  contentCollectionIterator<
+    TypeName extends keyof ContentTypes & string,
+    Select extends RestSelectOptions<EntryWithLinks<ContentTypes[TypeName]["Entry"]>> & string,
+  >(
+    options: TypedRestRequestOptions<TypeName, Select>,
+    paginationOptions?: PaginationOptions,
+  ): PaginatedCollection<
+    RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>,
+    RestListResponse<RestSelect<EntryWithLinks<ContentTypes[TypeName]["Entry"]>, Select>>
+  >;
+  contentCollectionIterator(
+    options?: Omit<RestRequestOptions, "content_type">,
+    paginationOptions?: PaginationOptions,
+  ): PaginatedCollection<AnyIndependentEntry, RestListResponse>;
+  contentCollectionIterator(
+    options?: RestRequestOptions,
+    paginationOptions?: PaginationOptions,
+  ): PaginatedCollection<any, RestListResponse<any>> {
+    return new PaginatedCollection((page: PageRequest) => this.requestContentCollection({ ...options, ...page }, paginationOptions), {
+      skip: options?.skip,
+      limit: options?.limit,
+      ...paginationOptions,
+    });
   }
 }
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * Generates rest-schema.ts and graphql-schema.ts from the content types of the space.
+ *
+ * Usage: content-cloud-schema [--out-dir <dir>] [--user-data-types <a,b>] [--check]
+ *
+ * `npm run build` compiles the CLI to dist/, which is linked as the `content-cloud-schema` binary of the package. To run
+ * it from the sources instead, use `npx tsx content-cloud-schema-cli.ts`.
+ *
+ * The base URL is read from CC_SATELLITE_BASE_URL or CC_BASE_URL and the access token from CC_ACCESS_TOKEN. The token
+ * requires the `permission:developer` scope. With --check, no files are written and the process exits with code 1 if
+ * the existing files differ from the generated ones. Exclude the generated files from formatting, as any formatting
+ * change is reported as well.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { ContentCloudPermission } from "./content-cloud-access-token-claims";
+import { GeneratedSchemas, loadSchemas } from "./content-cloud-schema-generator";
+import { ContentCloudSystemRestClient } from "./content-cloud-system-rest-client";
+import { parseJwt } from "./content-cloud-token-manager";
+
+async function readExisting(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      "out-dir": { type: "string", default: "." },
+      "user-data-types": { type: "string" },
+      check: { type: "boolean", default: false },
+    },
+  });
+
+  const baseUrl = process.env.CC_SATELLITE_BASE_URL ?? process.env.CC_BASE_URL;
+  const accessToken = process.env.CC_ACCESS_TOKEN;
+  if (!baseUrl || !accessToken) {
+    throw new Error("CC_BASE_URL and CC_ACCESS_TOKEN are required.");
+  }
+
+  const token = parseJwt(accessToken);
+  const scopes: string[] = Array.isArray(token.scope) ? token.scope : (token.scope?.split(" ") ?? []);
+  if (!scopes.includes(ContentCloudPermission.DEVELOPER)) {
+    throw new Error(`The access token requires the ${ContentCloudPermission.DEVELOPER} scope to generate the schema.`);
+  }
+
+  const client = new ContentCloudSystemRestClient({
+    baseUrl,
+    accessToken,
+    spaceId: token.spaceId ?? scopes.find((scope) => scope.startsWith("space:"))?.substring("space:".length),
+    environmentId: token.environmentIds?.[0] ?? scopes.find((scope) => scope.startsWith("environment:"))?.substring("environment:".length),
+  });
+
+  const schemas = await loadSchemas(client, {
+    userDataTypes: values["user-data-types"]
+      ?.split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+  });
+
+  const stale: string[] = [];
+  for (const [name, content] of Object.entries(schemas) as [keyof GeneratedSchemas, string][]) {
+    const path = join(values["out-dir"]!, name);
+    if ((await readExisting(path)) === content) {
+      continue;
+    }
+
+    stale.push(path);
+    if (!values.check) {
+      await writeFile(path, content);
+    }
+  }
+
+  if (values.check) {
+    if (stale.length) {
+      console.error(`The schema is out of date, run content-cloud-schema to update:\n${stale.map((path) => `  ${path}`).join("\n")}`);
+      return 1;
+    }
+    console.log("The schema is up to date.");
+    return 0;
+  }
+
+  console.log(stale.length ? `Updated ${stale.join(", ")}.` : "The schema is up to date.");
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateSchemas } from "./content-cloud-schema-generator";
+import { ContentTypeEntry, ContentTypePropertyEntry } from "./content-cloud-system-rest-client";
+
+function property(machineName: string, type: string, overrides: Partial<ContentTypePropertyEntry> = {}): ContentTypePropertyEntry {
+  return {
+    machineName,
+    type,
+    isArray: false,
+    isRequired: false,
+    isItemRequired: false,
+    isLink: false,
+    ...overrides,
+  } as ContentTypePropertyEntry;
+}
+
+function contentType(id: string, machineName: string, properties: ContentTypePropertyEntry[], isIndependent = true): ContentTypeEntry {
+  return { id, machineName, isIndependent, properties } as ContentTypeEntry;
+}
+
+const CONTENT_TYPES = [
+  contentType("ct-article", "article", [
+    property("title", "string", { isRequired: true, description: "The headline." }),
+    property("author", "Link", { isLink: true, allowedTypes: ["ct-author"] }),
+    property("tags", "Link", { isLink: true, isArray: true, isItemRequired: true, allowedTypes: ["ct-tag"] }),
+    property("seo", "seo"),
+  ]),
+  contentType("ct-author", "author", [property("name", "string", { isRequired: true })]),
+  contentType("ct-tag", "tag", [property("name", "string", { isRequired: true })]),
+  contentType("ct-seo", "seo", [property("description", "text")], false),
+  contentType("ct-favorite", "favorite", [property("rating", "integer")]),
+];
+
+describe("generateSchemas", () => {
+  const schemas = generateSchemas(CONTENT_TYPES, { userDataTypes: ["favorite"] });
+
+  it("types the fields of the REST schema including links and embedded entries", () => {
+    const rest = schemas["rest-schema.ts"];
+
+    assert.ok(
+      rest.includes(
+        [
+          "export interface Article extends Entry {",
+          "  fields: {",
+          "    /**",
+          "     * The headline.",
+          "     */",
+          "    title: string;",
+          "    author?: Author | null;",
+          "    tags?: Tag[] | null;",
+          "    seo?: Seo | null;",
+          "  };",
+          "}",
+        ].join("\n"),
+      ),
+    );
+    assert.ok(
+      rest.includes(
+        [
+          "export type TagOrder =",
+          '  | "sys.createdAt"',
+          '  | "-sys.createdAt"',
+          '  | "sys.updatedAt"',
+          '  | "-sys.updatedAt"',
+          '  | "fields.name"',
+          '  | "-fields.name";',
+        ].join("\n"),
+      ),
+    );
+    assert.ok(
+      rest.includes("export interface ArticleUpdate {\n  /**\n   * The headline.\n   */\n  title: string;\n  author?: EntryLink | null;"),
+    );
+    assert.ok(rest.includes("  seo?: SeoUpdate | null;"));
+  });
+
+  it("separates queryable content types from user data types", () => {
+    const graphql = schemas["graphql-schema.ts"];
+
+    assert.ok(graphql.includes('export const INDEPENDENT_ENTRY_TYPES = [\n  "Article",\n  "Author",\n  "Tag",\n] as const;'));
+    assert.ok(graphql.includes('export const CONTENT_USER_DATA_ENTRY_TYPES = [\n  "Favorite",\n] as const;'));
+    assert.ok(graphql.includes("export interface ContentUserDataTypes {\n  Favorite: { Entry: Favorite;"));
+    assert.ok(schemas["rest-schema.ts"].includes("export type AnyIndependentEntry =\n  | Article\n  | Author\n  | Tag;"));
+  });
+
+  it("adds the filter operators of the property types to the GraphQL schema", () => {
+    const graphql = schemas["graphql-schema.ts"];
+
+    assert.ok(graphql.includes("  rating_in?: number[];\n  rating_not_in?: number[];\n  rating_exists?: boolean;\n  rating_lt?: number;"));
+    assert.ok(graphql.includes("  name_contains?: string;\n  AND?: AuthorFilter[];\n  OR?: AuthorFilter[];\n}"));
+  });
+
+  it("uses the same layout regardless of the length of the lines", () => {
+    const many = Array.from({ length: 12 }, (_, i) => contentType(`ct-${i}`, `contentTypeNumber${i}`, [property("title", "string")]));
+    many[0]!.properties.push(property("related", "Link", { isLink: true, allowedTypes: many.map((type) => type.id) }));
+    const graphql = generateSchemas(many)["graphql-schema.ts"];
+
+    assert.ok(graphql.includes(`  related?: ${many.map((_, i) => `ContentTypeNumber${i}`).join(" | ")} | null;`));
+    assert.ok(graphql.includes("export const CONTENT_USER_DATA_ENTRY_TYPES = [] as const;"));
+    assert.ok(graphql.includes("export interface ContentUserDataTypes {}"));
+    assert.ok(!graphql.includes("prettier-ignore"));
+  });
+
+  it("rejects user data types that aren't content types of the space", () => {
+    assert.throws(() => generateSchemas(CONTENT_TYPES, { userDataTypes: ["bookmark"] }), /"bookmark" is not a content type/);
+  });
+});
@@ -0,0 +1,425 @@
+import { getGraphQLTypeName } from "./content-cloud-cache";
+import { PaginationOptions } from "./content-cloud-pagination";
+import { ContentCloudSystemRestClient, ContentTypeEntry, ContentTypePropertyEntry } from "./content-cloud-system-rest-client";
+
+/**
+ * Options for generating the schema files.
+ */
+export interface SchemaGeneratorOptions {
+  /**
+   * The machine names of the content types that store user data, e.g. ["favorite"]. They are emitted as
+   * ContentUserDataTypes instead of ContentTypes.
+   */
+  userDataTypes?: string[];
+}
+
+/**
+ * The generated files, keyed by their file name.
+ */
+export interface GeneratedSchemas {
+  "rest-schema.ts": string;
+  "graphql-schema.ts": string;
+}
+
+const HEADER = `/* eslint-disable */
+// This file is generated from the content types of your space. Do not edit or format it manually, the
+// content-cloud-schema CLI compares it with the generated content to detect changes. Run the CLI to update it.
+`;
+
+const FILTER_OPERATORS = `/**
+ * A filter value or the operators supported for it.
+ */
+type FilterValue<Type> =
+  | Type
+  | {
+      in?: Type[];
+      nin?: Type[];
+      ne?: Type;
+      exists?: boolean;
+      lt?: Type;
+      gt?: Type;
+      lte?: Type;
+      gte?: Type;
+      match?: string;
+      all?: Type[];
+      some?: Type[];
+      none?: Type[];
+    };
+`;
+
+/**
+ * Quote a property name if it's not a valid identifier.
+ *
+ * @param {string} name The property name.
+ * @returns {string} The property key.
+ */
+function toKey(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Declare a union type with one member per line. The layout doesn't depend on the length of the lines, so the
+ * generated files are the same for every formatter setup.
+ *
+ * @param {string} name The name of the type.
+ * @param {string[]} members The members of the union.
+ * @returns {string} The type declaration.
+ */
+function formatUnion(name: string, members: string[]): string {
+  if (members.length === 1) {
+    return `export type ${name} = ${members[0]};`;
+  }
+  return `export type ${name} =\n${members.map((member) => `  | ${member}`).join("\n")};`;
+}
+
+/**
+ * Declare a constant array of strings with one item per line.
+ *
+ * @param {string} name The name of the constant.
+ * @param {string[]} items The items of the array.
+ * @returns {string} The constant declaration.
+ */
+function formatConstArray(name: string, items: string[]): string {
+  if (!items.length) {
+    return `export const ${name} = [] as const;`;
+  }
+  return `export const ${name} = [\n${items.map((item) => `  ${JSON.stringify(item)},`).join("\n")}\n] as const;`;
+}
+
+/**
+ * Get the TypeScript type of a scalar property, or undefined if it's not a scalar.
+ *
+ * @param {string} type The type of the property.
+ * @returns {string | undefined} The TypeScript type.
+ */
+function getScalarType(type: string): string | undefined {
+  switch (type.toLowerCase()) {
+    case "string":
+    case "text":
+    case "richtext":
+    case "date":
+    case "datetime":
+      return "string";
+    case "integer":
+    case "float":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "json":
+    case "object":
+      return "Record<string, any>";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generates the TypeScript types for the content types of a space.
+ */
+class SchemaBuilder {
+  private readonly byId = new Map<string, ContentTypeEntry>();
+  private readonly userDataTypes: Set<string>;
+
+  constructor(
+    private readonly contentTypes: ContentTypeEntry[],
+    options: SchemaGeneratorOptions,
+  ) {
+    for (const contentType of contentTypes) {
+      for (const key of [contentType.id, contentType.sys?.id, contentType.customId, contentType.machineName]) {
+        if (key) {
+          this.byId.set(key, contentType);
+        }
+      }
+    }
+
+    this.userDataTypes = new Set(options.userDataTypes);
+    for (const name of this.userDataTypes) {
+      if (!contentTypes.some((contentType) => contentType.machineName === name)) {
+        throw new Error(`User data type "${name}" is not a content type of the space.`);
+      }
+    }
+  }
+
+  private get sorted(): ContentTypeEntry[] {
+    return [...this.contentTypes].sort((a, b) => a.machineName.localeCompare(b.machineName));
+  }
+
+  private get queryable(): ContentTypeEntry[] {
+    return this.sorted.filter((contentType) => contentType.isIndependent && !this.userDataTypes.has(contentType.machineName));
+  }
+
+  private get userData(): ContentTypeEntry[] {
+    return this.sorted.filter((contentType) => this.userDataTypes.has(contentType.machineName));
+  }
+
+  /**
+   * Get the TypeScript type of a single value of the property.
+   *
+   * @param {ContentTypePropertyEntry} property The property.
+   * @param {boolean} links Whether linked entries are typed as links instead of entries, e.g. for updates.
+   * @returns {string} The TypeScript type.
+   */
+  private getValueType(property: ContentTypePropertyEntry, links: boolean): string {
+    if (property.isLink) {
+      if (links) {
+        return "EntryLink";
+      }
+
+      const allowed = (property.allowedTypes ?? []).map((type) => this.byId.get(type)).filter((type) => !!type);
+      return allowed.length ? allowed.map((type) => getGraphQLTypeName(type.machineName)).join(" | ") : "Entry";
+    }
+
+    // Embedded entries are sent as their fields in updates.
+    const embedded = this.byId.get(property.type);
+    if (embedded) {
+      return links ? `${getGraphQLTypeName(embedded.machineName)}Update` : getGraphQLTypeName(embedded.machineName);
+    }
+
+    return getScalarType(property.type) ?? "unknown";
+  }
+
+  /**
+   * Get the TypeScript property declaration, including arrays and nullability.
+   *
+   * @param {ContentTypePropertyEntry} property The property.
+   * @param {boolean} links Whether linked entries are typed as links instead of entries.
+   * @param {string} indent The indentation of the declaration.
+   * @returns {string} The declaration, e.g. `title: string;`.
+   */
+  private getProperty(property: ContentTypePropertyEntry, links = false, indent = "  "): string {
+    let type = this.getValueType(property, links);
+    if (property.isArray) {
+      const item = property.isItemRequired ? type : `${type} | null`;
+      type = item.includes(" | ") ? `(${item})[]` : `${item}[]`;
+    }
+
+    const comment = property.description ? `${indent}/**\n${indent} * ${property.description.replace(/\*\//g, "* /")}\n${indent} */\n` : "";
+    return property.isRequired
+      ? `${comment}${indent}${toKey(property.machineName)}: ${type};`
+      : `${comment}${indent}${toKey(property.machineName)}?: ${type} | null;`;
+  }
+
+  /**
+   * Whether the property can be used to filter by.
+   */
+  private isScalar(property: ContentTypePropertyEntry): boolean {
+    const type = getScalarType(property.type);
+    return !property.isLink && !!type && type !== "Record<string, any>";
+  }
+
+  /**
+   * Generate the REST schema, where the properties are nested in `fields`.
+   *
+   * @returns {string} The content of rest-schema.ts.
+   */
+  buildRestSchema(): string {
+    const lines: string[] = [
+      HEADER,
+      `import type { EntryLink as SystemEntryLink, EntrySystemMetadata } from "./content-cloud-system-rest-client";`,
+      "",
+      'export type EntryLink = SystemEntryLink<"Entry">;',
+      "",
+      "export interface Entry {",
+      '  sys: EntrySystemMetadata<"Content"> & { contentType: SystemEntryLink<"ContentType"> };',
+      "}",
+      "",
+      FILTER_OPERATORS,
+    ];
+
+    for (const contentType of this.sorted) {
+      const name = getGraphQLTypeName(contentType.machineName);
+      const sortable = contentType.properties.filter((property) => this.isScalar(property) && !property.isArray);
+
+      lines.push(
+        `export interface ${name} extends Entry {`,
+        "  fields: {",
+        ...contentType.properties.map((property) => this.getProperty(property, false, "    ")),
+        "  };",
+        "}",
+        "",
+        `export interface ${name}Filter {`,
+        "  sys?: { id?: FilterValue<string>; createdAt?: FilterValue<string>; updatedAt?: FilterValue<string> };",
+        "  fields?: {",
+        ...contentType.properties.map((property) =>
+          property.isLink
+            ? `    ${toKey(property.machineName)}?: { sys?: { id?: FilterValue<string> } };`
+            : this.isScalar(property)
+              ? `    ${toKey(property.machineName)}?: FilterValue<${getScalarType(property.type)}>;`
+              : `    ${toKey(property.machineName)}?: { exists?: boolean };`,
+        ),
+        "  };",
+        "}",
+        "",
+        formatUnion(
+          `${name}Order`,
+          ["sys.createdAt", "sys.updatedAt", ...sortable.map((property) => `fields.${property.machineName}`)].flatMap((field) => [
+            JSON.stringify(field),
+            JSON.stringify(`-${field}`),
+          ]),
+        ),
+        "",
+        `export interface ${name}Update {`,
+        ...contentType.properties.map((property) => this.getProperty(property, true)),
+        "}",
+        "",
+      );
+    }
+
+    const queryable = this.queryable.map((contentType) => getGraphQLTypeName(contentType.machineName));
+    lines.push(formatUnion("AnyIndependentEntry", queryable.length ? queryable : ["Entry"]), "");
+    lines.push(...this.buildTypeMap("ContentTypes", this.queryable, (contentType) => contentType.machineName));
+    lines.push(...this.buildTypeMap("ContentUserDataTypes", this.userData, (contentType) => contentType.machineName));
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the GraphQL schema, where the properties are part of the entry.
+   *
+   * @returns {string} The content of graphql-schema.ts.
+   */
+  buildGraphQLSchema(): string {
+    const lines: string[] = [
+      HEADER,
+      "export interface EntryLink {",
+      '  sys: { id: string; type: "Link"; linkType: "Entry" };',
+      "}",
+      "",
+      "export interface EntrySystemMetadata {",
+      "  id: string;",
+      "  customId?: string | null;",
+      "  uuid: string;",
+      "  createdAt: string;",
+      "  updatedAt: string;",
+      "  revision: number;",
+      "  isPublished: boolean;",
+      "  versionId: string;",
+      "  locale: string;",
+      "}",
+      "",
+      "export interface Entry {",
+      "  sys: EntrySystemMetadata;",
+      "}",
+      "",
+    ];
+
+    for (const contentType of this.sorted) {
+      const name = getGraphQLTypeName(contentType.machineName);
+      const scalars = contentType.properties.filter((property) => this.isScalar(property));
+      const sortable = scalars.filter((property) => !property.isArray);
+
+      const filters: string[] = [];
+      for (const property of scalars) {
+        const type = getScalarType(property.type)!;
+        const operators: [string, string][] = [
+          ["", type],
+          ["_not", type],
+          ["_in", `${type}[]`],
+          ["_not_in", `${type}[]`],
+          ["_exists", "boolean"],
+        ];
+        if (type === "string") {
+          operators.push(["_contains", "string"]);
+        }
+        if (type === "number" || property.type.toLowerCase().startsWith("date")) {
+          operators.push(["_lt", type], ["_lte", type], ["_gt", type], ["_gte", type]);
+        }
+        filters.push(...operators.map(([suffix, operand]) => `  ${toKey(property.machineName + suffix)}?: ${operand};`));
+      }
+
+      lines.push(
+        `export interface ${name} extends Entry {`,
+        ...contentType.properties.map((property) => this.getProperty(property)),
+        "}",
+        "",
+        `export interface ${name}Filter {`,
+        ...filters,
+        `  AND?: ${name}Filter[];`,
+        `  OR?: ${name}Filter[];`,
+        "}",
+        "",
+        formatUnion(
+          `${name}Order`,
+          ["sys_createdAt", "sys_updatedAt", ...sortable.map((property) => property.machineName)].flatMap((field) => [
+            JSON.stringify(`${field}_ASC`),
+            JSON.stringify(`${field}_DESC`),
+          ]),
+        ),
+        "",
+        `export interface ${name}Update {`,
+        ...contentType.properties.map((property) => this.getProperty(property, true)),
+        "}",
+        "",
+      );
+    }
+
+    lines.push(...this.buildTypeMap("ContentTypes", this.queryable, (contentType) => getGraphQLTypeName(contentType.machineName)));
+    lines.push(...this.buildTypeMap("ContentUserDataTypes", this.userData, (contentType) => getGraphQLTypeName(contentType.machineName)));
+    lines.push(
+      formatConstArray(
+        "INDEPENDENT_ENTRY_TYPES",
+        this.queryable.map((contentType) => getGraphQLTypeName(contentType.machineName)),
+      ),
+      formatConstArray(
+        "CONTENT_USER_DATA_ENTRY_TYPES",
+        this.userData.map((contentType) => getGraphQLTypeName(contentType.machineName)),
+      ),
+      "",
+    );
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the interface that maps the keys to the Entry, Filter, Order and Update types.
+   */
+  private buildTypeMap(name: string, contentTypes: ContentTypeEntry[], getKey: (contentType: ContentTypeEntry) => string): string[] {
+    if (!contentTypes.length) {
+      return [`export interface ${name} {}`, ""];
+    }
+    return [
+      `export interface ${name} {`,
+      ...contentTypes.map((contentType) => {
+        const type = getGraphQLTypeName(contentType.machineName);
+        return `  ${toKey(getKey(contentType))}: { Entry: ${type}; Filter: ${type}Filter; Order: ${type}Order; Update: ${type}Update };`;
+      }),
+      "}",
+      "",
+    ];
+  }
+}
+
+/**
+ * Generate rest-schema.ts and graphql-schema.ts for the given content types. Independent content types are
+ * queryable through ContentTypes, the given user data types through ContentUserDataTypes.
+ *
+ * @param {ContentTypeEntry[]} contentTypes All content types of the space.
+ * @param {SchemaGeneratorOptions} [options] Which content types store user data.
+ * @returns {GeneratedSchemas} The content of the files.
+ * @throws {Error} If a user data type isn't a content type of the space.
+ */
+export function generateSchemas(contentTypes: ContentTypeEntry[], options: SchemaGeneratorOptions = {}): GeneratedSchemas {
+  const builder = new SchemaBuilder(contentTypes, options);
+  return {
+    "rest-schema.ts": builder.buildRestSchema(),
+    "graphql-schema.ts": builder.buildGraphQLSchema(),
+  };
+}
+
+/**
+ * Load all content types with the given client and generate rest-schema.ts and graphql-schema.ts. The access token
+ * of the client requires the `DEVELOPER` permission.
+ *
+ * @param {ContentCloudSystemRestClient} client The client to load the content types with.
+ * @param {SchemaGeneratorOptions} [options] Which content types store user data.
+ * @param {PaginationOptions} [requestOptions] Options for the requests, e.g. an AbortSignal.
+ * @returns {Promise<GeneratedSchemas>} The content of the files.
+ */
+export async function loadSchemas(
+  client: ContentCloudSystemRestClient,
+  options?: SchemaGeneratorOptions,
+  requestOptions?: PaginationOptions,
+): Promise<GeneratedSchemas> {
+  return generateSchemas(await client.contentTypeCollectionIterator(undefined, requestOptions).toArray(), options);
+}
@@ -1,5 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-expressions */
+import { AssetFile, AssetFileOptions, formatByteRange } from "./content-cloud-asset-file";
+import { ContentCloudResponseCache, getCacheId } from "./content-cloud-cache";
+import { ContentCloudEntryLoader, EntryLoaderOptions } from "./content-cloud-entry-loader";
+import { ContentCloudAbortError, ContentCloudNotFoundError } from "./content-cloud-errors";
+import { ContentCloudLocaleService } from "./content-cloud-locales";
+import { PageRequest, PaginatedCollection, PaginationOptions } from "./content-cloud-pagination";
+import { ClientRequestOptions, ContentCloudMiddleware, readJsonBody, RetryOptions, sendRequest } from "./content-cloud-request";
+import { AccessTokenSource, ContentCloudTokenManager, parseJwt } from "./content-cloud-token-manager";
 
 /**
  * SystemMetadata is used to define the system metadata for all entries.
@@ -153,6 +161,16 @@ export interface CollectionResponse<Type> {
  */
 export type EntryResponse<Type> = Type & { sys: SystemMetadata };
 
+/**
+ * OrganizationEntry is used to define the organization that owns the space.
+ */
+export interface OrganizationEntry extends Entry<"Organization"> {
+  id: string;
+  uuid: string;
+  name: string;
+  featureConfig: FeatureConfig;
+}
+
 /**
  * SpaceEntry is used to define a space entry in the system.
  */
@@ -166,7 +184,28 @@ export interface SpaceEntry extends Entry<"Space"> {
 /**
  * EnvironmentEntry is used to define an environment entry in the system.
  */
-export interface EnvironmentEntry extends Entry<"Environment"> {}
+export interface EnvironmentEntry extends Entry<"Environment"> {
+  id: string;
+  uuid: string;
+  name: string;
+  featureConfig: FeatureConfig;
+}
+
+/**
+ * The feature configuration of each level and the effective configuration of the current environment.
+ */
+export interface ResolvedFeatureConfig {
+  organization: FeatureConfig;
+  space: FeatureConfig;
+  /**
+   * The configuration of the environment of the client. Empty if the client has no environment ID.
+   */
+  environment: FeatureConfig;
+  /**
+   * The merged configuration, where the environment overrides the space and the space overrides the organization.
+   */
+  resolved: FeatureConfig;
+}
 
 /**
  * LocaleEntry is used to define a locale entry in the system.
@@ -329,6 +368,7 @@ export interface ContentCollectionRequest extends CollectionRequest {
 
   content_type?: string;
   order?: string[] | string;
+  select?: string[] | string;
 }
 
 /**
@@ -341,6 +381,19 @@ export interface ContentEntryRequest extends QueryParameters {
   customId?: string;
   id?: string;
   uuid?: string;
+  select?: string[] | string;
+}
+
+/**
+ * ContentRequestOptions are the options for sending requests for content entries.
+ */
+export interface ContentRequestOptions extends ClientRequestOptions {
+  /**
+   * Fill empty localized fields with the values from the fallback locales of the requested `locale`. Fields excluded by
+   * `select` are never filled.
+   * Makes an additional request per fallback locale that's needed.
+   */
+  localeFallback?: boolean;
 }
 
 /**
@@ -388,10 +441,52 @@ export interface TagEntryRequest extends QueryParameters {
   id?: string;
 }
 
+/**
+ * EnvironmentCollectionRequest is used to get a collection of environments.
+ */
+export interface EnvironmentCollectionRequest extends CollectionRequest {
+  "sys.name"?: string;
+}
+
+/**
+ * EnvironmentEntryRequest is used to get a specific environment by its ID.
+ */
+export interface EnvironmentEntryRequest extends QueryParameters {
+  id: string;
+}
+
+/**
+ * ExternalLinkCollectionRequest is used to get a collection of external entry links.
+ */
+export interface ExternalLinkCollectionRequest extends CollectionRequest {
+  linkType?: ExternalEntryLinkType;
+  domain?: string;
+  siteUuid?: string;
+
+  /**
+   * The ID of the content entry the links belong to.
+   */
+  entry?: string;
+}
+
+/**
+ * ExternalLinkEntryRequest is used to get a specific external entry link by its ID.
+ */
+export interface ExternalLinkEntryRequest extends QueryParameters {
+  id: string;
+}
+
+/**
+ * ExternalEntryLinkData is used to create or update an external entry link. The system metadata is managed by the
+ * Content Cloud.
+ */
+export type ExternalEntryLinkData = Omit<ExternalEntryLinkEntry, "sys">;
+
 /**
  * Allowed paths for the REST API.
  */
-export type RestInterfaceDataTypes = "space" | "content_types" | "locales" | "entries" | "assets" | "tags";
+export type RestInterfaceDataTypes =
+  "space" | "content_types" | "locales" | "entries" | "assets" | "tags" | "external_links" | "user_data" | "organization" | "environments";
 
 /**
  * Allowed query parameters for the image optimization API.
@@ -446,6 +541,21 @@ function serializeQuery(queryParameters: QueryParameters): string {
     .join("&");
 }
 
+/**
+ * Get the origin of an asset host, e.g. "https://assets.example.com" for "assets.example.com/files".
+ *
+ * @param {string} host The host with or without a scheme. Hosts without a scheme use HTTPS.
+ * @returns {string} The origin.
+ * @throws {Error} If the host isn't a valid host or URL.
+ */
+function getOrigin(host: string): string {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(host) ? host : `https://${host}`).origin;
+  } catch {
+    throw new Error(`Invalid asset host: "${host}".`);
+  }
+}
+
 /**
  * Provide an image URL using the image optimization API.
  *
@@ -506,25 +616,53 @@ export class ContentCloudSystemRestClient {
     return convertBase(id, 62, 36);
   }
 
+  /**
+   * Provides the access token for all requests, if any. Pass it to other clients to share the token.
+   */
+  public readonly tokens?: ContentCloudTokenManager;
+
+  /**
+   * The origins of the `assetHosts` option, which receive the access token when downloading asset files.
+   */
+  private readonly assetOrigins: string[];
+
+  /**
+   * The locale service loads and caches the locales of the space to resolve fallback chains.
+   */
+  public readonly locales: ContentCloudLocaleService = new ContentCloudLocaleService(this);
+
   /**
    * Create a new instance of the ContentCloudRestClient.
    *
    * @param {object} options
    * @param {string} options.baseUrl The base URL of the Content Cloud API. This is different per region of hosting.
-   * @param {string} [options.accessToken] The access token to use for authentication. This is optional and will use the public environment permissions if not provided.
+   * @param {AccessTokenSource} [options.accessToken] The access token to use for authentication, a function providing it or a shared token manager. This is optional and will use the public environment permissions if not provided.
    * @param {string} [options.spaceId] The space ID to use for the requests. This is optional and only required when using the cacheId helper.
    * @param {string} [options.environmentId] The environment ID to use for the requests. This is optional and only required when using the cacheId helper.
    * @param {typeof fetch} [options.fetch] The fetch function to use for the requests. This is optional and will use the global fetch function if not provided.
+   * @param {RetryOptions | false} [options.retry] How to retry failed requests. This is optional and will use the DEFAULT_RETRY_OPTIONS if not provided. Pass `false` to disable retries.
+   * @param {number} [options.timeout] The default timeout for requests in milliseconds, including all retries. This is optional and requests won't time out if not provided.
+   * @param {ContentCloudResponseCache} [options.cache] The cache to use for GET requests. This is optional and responses won't be cached if not provided.
+   * @param {ContentCloudMiddleware[]} [options.middleware] The middleware to run for every request, e.g. to add custom headers or log requests.
+   * @param {string[]} [options.assetHosts] Other origins that serve asset files and require the access token, e.g. `https://assets.example.com`. Hosts without a scheme use HTTPS. The token is never sent to other hosts.
    */
   constructor(
     private readonly options: {
       baseUrl: string;
-      accessToken?: string;
+      accessToken?: AccessTokenSource;
       spaceId?: string;
       environmentId?: string;
       fetch?: typeof fetch;
+      retry?: RetryOptions | false;
+      timeout?: number;
+      cache?: ContentCloudResponseCache;
+      middleware?: ContentCloudMiddleware[];
+      assetHosts?: string[];
     },
-  ) {}
+  ) {
+    this.tokens = ContentCloudTokenManager.from(options.accessToken);
+    this.assetOrigins = (options.assetHosts ?? []).map(getOrigin);
+  }
 
   /**
    * The fetch function to use for making requests.
@@ -539,45 +677,142 @@ export class ContentCloudSystemRestClient {
    * The cache ID is used to identify the cache for the space and environment.
    */
   get cacheId(): string {
-    if (this.options.spaceId) {
-      if (this.options.environmentId) {
-        return `${this.options.spaceId}-${this.options.environmentId}`;
-      }
-      return this.options.spaceId;
+    return getCacheId(this.options.spaceId, this.options.environmentId);
+  }
+
+  /**
+   * Remove cached responses of this space and environment. If no target is given, all responses are removed.
+   * Does nothing if the client doesn't use a cache.
+   *
+   * @param {object} [target]
+   * @param {string} [target.entryId] Only remove responses that contain the entry with this ID.
+   * @param {string} [target.contentType] Only remove responses that contain entries of or are filtered by this content type.
+   *   Accepts the ID or machine name, the other one is loaded to remove the responses tagged with it as well.
+   */
+  async invalidateCache(target?: { entryId?: string; contentType?: string }): Promise<void> {
+    const cache = this.options.cache;
+    if (!cache) {
+      return;
     }
-    if (this.options.environmentId) {
-      return this.options.environmentId;
+
+    if (target?.entryId) {
+      await cache.invalidateEntry(this.cacheId, target.entryId);
+    }
+    if (target?.contentType) {
+      await cache.invalidateContentType(this.cacheId, await this.getContentTypeNames(target.contentType));
+    }
+    if (!target?.entryId && !target?.contentType) {
+      await cache.invalidateEnvironment(this.cacheId);
     }
-    return "default";
+  }
+
+  /**
+   * Get the ID, custom ID and machine name of a content type, as responses are tagged with the ID of their entries'
+   * content type and with the `content_type` parameter as given. Falls back to the given name if the content type
+   * can't be loaded, e.g. if the token can't read content types. Used by the GraphQL client to invalidate its cache.
+   *
+   * @param {string} contentType The ID, custom ID or machine name of the content type.
+   * @returns {Promise<string[]>} All names of the content type.
+   */
+  async getContentTypeNames(contentType: string): Promise<string[]> {
+    let entry: ContentTypeEntry | null = null;
+    try {
+      entry = await this.contentTypeEntry({ machineName: contentType }, { cache: false });
+      entry ??= await this.contentTypeEntry({ id: contentType }, { cache: false });
+    } catch {
+      // Invalidate the given name only.
+    }
+
+    return [...new Set([contentType, entry?.id, entry?.customId, entry?.machineName].filter((name) => !!name))] as string[];
+  }
+
+  /**
+   * Create a loader that batches all contentEntry, assetEntry and tagEntry requests made in the same tick into a
+   * single collection request per type. Create a new loader per page render or request.
+   *
+   * @param {EntryLoaderOptions} [options] The maximum batch size and options for every request.
+   * @returns {ContentCloudEntryLoader} The loader.
+   */
+  createEntryLoader(options?: EntryLoaderOptions): ContentCloudEntryLoader {
+    return new ContentCloudEntryLoader(this, options);
   }
 
   /**
    * Make a GET request to the Content Cloud API.
+   * Transient failures are retried according to the retry options of the client. If the client uses a cache, the
+   * response is served from the cache if available.
    *
    * @param {string} path The path to the API endpoint. Will be appended to the base URL.
    * @param {string} [query] The query parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request.
    * @returns {Promise<ResponseBodyType>} The response body.
+   * @throws {ContentCloudApiError} If the response has a non-2xx status code.
    *
    * @template ResponseBodyType The type of the response body, if available.
    */
-  async get<ResponseBodyType extends object>(path: string, query?: string): Promise<ResponseBodyType> {
-    //console.debug(path, query)
-
-    const response = await this.fetch(`${this.options.baseUrl}${path}${query ? `?${query}` : ""}`, {
-      headers: {
-        Accept: "application/json",
-        ...(this.options.accessToken
-          ? {
-              Authorization: `Bearer ${this.options.accessToken}`,
-            }
-          : {}),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(await response.text());
+  async get<ResponseBodyType extends object>(path: string, query?: string, options?: ClientRequestOptions): Promise<ResponseBodyType> {
+    const url = `${this.options.baseUrl}${path}${query ? `?${query}` : ""}`;
+
+    // Responses that include user data are specific to the user, so they are never cached.
+    const cache = this.options.cache;
+    if (cache && options?.cache !== false && !url.includes("user_data")) {
+      const contentType = new URLSearchParams(query).get("content_type");
+      try {
+        return await cache.fetch(
+          this.cacheId,
+          url,
+          // The load is shared with concurrent requests, so it must not be cancelled by the signal of this caller.
+          () => this.fetchJson<ResponseBodyType>(url, { ...options, signal: undefined }),
+          {
+            ...options?.cache,
+            tags: contentType ? [`content-type:${contentType}`] : [],
+            scope: await this.tokens?.getScope(),
+            signal: options?.signal,
+          },
+        );
+      } catch (error) {
+        if (options?.signal?.aborted && error === options.signal.reason) {
+          throw new ContentCloudAbortError("GET", url, error);
+        }
+        throw error;
+      }
     }
 
+    return this.fetchJson<ResponseBodyType>(url, options);
+  }
+
+  /**
+   * Make an uncached GET request to the Content Cloud API.
+   *
+   * @param {string} url The full URL of the request.
+   * @param {ClientRequestOptions} [options] Options for this request.
+   * @returns {Promise<ResponseBodyType>} The response body.
+   *
+   * @template ResponseBodyType The type of the response body, if available.
+   * @protected
+   */
+  protected async fetchJson<ResponseBodyType extends object>(url: string, options?: ClientRequestOptions): Promise<ResponseBodyType> {
+    //console.debug(url)
+
+    const response = await sendRequest(
+      {
+        method: "GET",
+        url,
+        headers: {
+          Accept: "application/json",
+        },
+      },
+      {
+        fetch: this.fetch,
+        tokens: this.tokens,
+        retry: options?.retry ?? this.options.retry,
+        idempotent: true,
+        signal: options?.signal,
+        timeout: options?.timeout ?? this.options.timeout,
+        middleware: this.options.middleware,
+      },
+    );
+
     const responseBody = await response.json();
 
     responseBody.errors && console.log(responseBody.errors);
@@ -589,40 +824,103 @@ export class ContentCloudSystemRestClient {
 
   /**
    * Make a POST request to the Content Cloud API.
+   * The request is only retried on transient failures if it's marked as idempotent or if it was rate limited.
    *
    * @param {string} path The path to the API endpoint. Will be appended to the base URL.
    * @param {object} body The body of the request. This will be serialized to JSON.
+   * @param {ClientRequestOptions} [options] Options for this request.
    * @returns {Promise<ResponseBodyType>} The response body.
+   * @throws {ContentCloudApiError} If the response has a non-2xx status code.
    *
    * @template ResponseBodyType The type of the response body, if available.
    */
   async post<ResponseBodyType extends object, RequestBodyType extends object>(
     path: string,
     body: RequestBodyType,
+    options?: ClientRequestOptions,
   ): Promise<ResponseBodyType> {
-    const response = await this.fetch(`${this.options.baseUrl}${path}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(this.options.accessToken
-          ? {
-              Authorization: `Bearer ${this.options.accessToken}`,
-            }
-          : {}),
-      },
-      body: JSON.stringify(body),
-    });
+    return this.send<ResponseBodyType>("POST", path, body, options);
+  }
 
-    if (!response.ok) {
-      throw new Error(await response.text());
-    }
+  /**
+   * Make a PUT request to the Content Cloud API.
+   * As the provided body replaces the resource, the request is retried on transient failures unless it's marked as
+   * not idempotent.
+   *
+   * @param {string} path The path to the API endpoint. Will be appended to the base URL.
+   * @param {object} body The body of the request. This will be serialized to JSON.
+   * @param {ClientRequestOptions} [options] Options for this request.
+   * @returns {Promise<ResponseBodyType>} The response body.
+   * @throws {ContentCloudApiError} If the response has a non-2xx status code.
+   *
+   * @template ResponseBodyType The type of the response body, if available.
+   */
+  async put<ResponseBodyType extends object, RequestBodyType extends object>(
+    path: string,
+    body: RequestBodyType,
+    options?: ClientRequestOptions,
+  ): Promise<ResponseBodyType> {
+    return this.send<ResponseBodyType>("PUT", path, body, { ...options, idempotent: options?.idempotent ?? true });
+  }
 
-    const responseBody = await response.json();
+  /**
+   * Make a DELETE request to the Content Cloud API.
+   * Deleting the same resource twice has no additional effect, so the request is retried on transient failures
+   * unless it's marked as not idempotent.
+   *
+   * @param {string} path The path to the API endpoint. Will be appended to the base URL.
+   * @param {ClientRequestOptions} [options] Options for this request.
+   * @throws {ContentCloudApiError} If the response has a non-2xx status code.
+   */
+  async delete(path: string, options?: ClientRequestOptions): Promise<void> {
+    await this.send("DELETE", path, undefined, { ...options, idempotent: options?.idempotent ?? true });
+  }
 
-    responseBody.errors && console.log(responseBody.errors);
+  /**
+   * Send a request with a JSON body to the Content Cloud API.
+   *
+   * @param {string} method The HTTP method.
+   * @param {string} path The path to the API endpoint. Will be appended to the base URL.
+   * @param {object} [body] The body of the request. This will be serialized to JSON.
+   * @param {ClientRequestOptions} [options] Options for this request.
+   * @returns {Promise<ResponseBodyType>} The response body.
+   *
+   * @template ResponseBodyType The type of the response body, if available.
+   * @protected
+   */
+  protected async send<ResponseBodyType extends object>(
+    method: string,
+    path: string,
+    body?: object,
+    options?: ClientRequestOptions,
+  ): Promise<ResponseBodyType> {
+    const response = await sendRequest(
+      {
+        method,
+        url: `${this.options.baseUrl}${path}`,
+        headers: {
+          ...(body ? { "Content-Type": "application/json" } : {}),
+          Accept: "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      },
+      {
+        fetch: this.fetch,
+        tokens: this.tokens,
+        retry: options?.retry ?? this.options.retry,
+        idempotent: options?.idempotent ?? false,
+        signal: options?.signal,
+        timeout: options?.timeout ?? this.options.timeout,
+        middleware: this.options.middleware,
+      },
+    );
 
-    return responseBody;
+    // DELETE requests usually respond without a body.
+    const responseBody = await readJsonBody<ResponseBodyType & { errors?: unknown }>(response);
+
+    responseBody?.errors && console.log(responseBody.errors);
+
+    return responseBody as ResponseBodyType;
   }
 
   /**
@@ -631,6 +929,7 @@ export class ContentCloudSystemRestClient {
    * @param {RestInterfaceDataTypes} type The type of the request like "space" or "asset".
    * @param {string} [id] The ID of the entry to get. If not provided, will return a list of items instead.
    * @param {Record<string, unknown>} [queryParameters] The query parameters to use for the request. Will be serialized to a query string.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @returns {Promise<ResponseBodyType>} The response body.
    *
    * @template ResponseBodyType The type of the response body, if available.
@@ -639,31 +938,55 @@ export class ContentCloudSystemRestClient {
     type: RestInterfaceDataTypes,
     id?: string,
     queryParameters?: Record<string, unknown>,
+    options?: ClientRequestOptions,
   ): Promise<ResponseBodyType> {
-    return this.get<ResponseBodyType>(`/${type}${id ? `/${id}` : ""}`, queryParameters && serializeQuery(queryParameters));
+    return this.get<ResponseBodyType>(`/${type}${id ? `/${id}` : ""}`, queryParameters && serializeQuery(queryParameters), options);
   }
 
   /**
    * Get a collection of content types.
    *
    * @param {ContentTypeCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @returns {Promise<CollectionResponse<ContentTypeEntry>>} The response body.
    */
-  async contentTypeCollection(request?: ContentTypeCollectionRequest): Promise<CollectionResponse<ContentTypeEntry>> {
-    return this.query("content_types", undefined, request);
+  async contentTypeCollection(
+    request?: ContentTypeCollectionRequest,
+    options?: ClientRequestOptions,
+  ): Promise<CollectionResponse<ContentTypeEntry>> {
+    return this.query("content_types", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all content types, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {ContentTypeCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   */
+  contentTypeCollectionIterator(
+    request?: ContentTypeCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<ContentTypeEntry, CollectionResponse<ContentTypeEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.contentTypeCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
   }
 
   /**
    * Get a specific content type by its ID, custom ID or machine name.
    *
    * @param {ContentTypeEntryRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    * @returns {Promise<ContentTypeEntry | null>} The response body.
    */
-  async contentTypeEntry(request?: ContentTypeEntryRequest): Promise<ContentTypeEntry | null> {
+  async contentTypeEntry(request?: ContentTypeEntryRequest, options?: ClientRequestOptions): Promise<ContentTypeEntry | null> {
     if (request?.id) {
-      return this.query<ContentTypeEntry>("content_types", request.id);
+      return this.query<ContentTypeEntry>("content_types", request.id, undefined, options);
     }
-    const response = await this.query<CollectionResponse<ContentTypeEntry>>("content_types", undefined, request);
+    const response = await this.query<CollectionResponse<ContentTypeEntry>>("content_types", undefined, request, options);
 
     return response?.items?.[0] ?? null;
   }
@@ -672,94 +995,420 @@ export class ContentCloudSystemRestClient {
    * Get a collection of content entries.
    *
    * @param {ContentCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ContentRequestOptions} [options] Options for this request, e.g. an AbortSignal or whether to apply locale fallbacks.
    * @returns {Promise<ContentEntryCollection>} The response body.
    *
    * @template ContentEntryCollection The type of the content entry, if available.
    */
   async contentCollection<ContentEntryCollection extends CollectionResponse<ContentEntry>>(
     request?: ContentCollectionRequest,
+    options?: ContentRequestOptions,
   ): Promise<ContentEntryCollection> {
-    return this.query("entries", undefined, request);
+    const { localeFallback, ...requestOptions } = options ?? {};
+    const response = await this.query<ContentEntryCollection>("entries", undefined, request, requestOptions);
+    if (!localeFallback || !request?.locale) {
+      return response;
+    }
+
+    return { ...response, items: await this.locales.applyFallbacks(response.items, request.locale, requestOptions, request.select) };
+  }
+
+  /**
+   * Iterate over all content entries, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {ContentCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   * @returns {PaginatedCollection<ContentEntryType>} The iterable collection.
+   *
+   * @template ContentEntryType The type of the content entry, if available.
+   */
+  contentCollectionIterator<ContentEntryType extends ContentEntry = ContentEntry>(
+    request?: ContentCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<ContentEntryType, CollectionResponse<ContentEntryType>> {
+    return new PaginatedCollection(
+      (page: PageRequest) => this.contentCollection<CollectionResponse<ContentEntryType>>({ ...request, ...page }, options),
+      { skip: request?.skip, limit: request?.limit, ...options },
+    );
   }
 
   /**
    * Get a specific content entry by its ID, custom ID or UUID.
    *
    * @param {ContentEntryRequest} [request] The request parameters to use for the request.
+   * @param {ContentRequestOptions} [options] Options for this request, e.g. an AbortSignal or whether to apply locale fallbacks.
    * @returns {Promise<ContentEntryType | null>} The response body.
    *
    * @template ContentEntryType The type of the content entry, if available.
    */
   async contentEntry<ContentEntryType extends ContentEntry = ContentEntry>(
     request?: ContentEntryRequest,
+    options?: ContentRequestOptions,
   ): Promise<ContentEntryType | null> {
+    const { localeFallback, ...requestOptions } = options ?? {};
+    let entry: ContentEntryType | null;
     if (request?.id) {
-      return this.query<ContentEntryType>("entries", request.id, request);
+      entry = await this.query<ContentEntryType>("entries", request.id, request, requestOptions);
+    } else {
+      const response = await this.query<CollectionResponse<ContentEntryType>>("entries", undefined, request, requestOptions);
+      entry = response?.items?.[0] ?? null;
     }
-    const response = await this.query<CollectionResponse<ContentEntryType>>("entries", undefined, request);
 
-    return response?.items?.[0] ?? null;
+    if (!entry || !localeFallback || !request?.locale) {
+      return entry;
+    }
+
+    const [merged] = await this.locales.applyFallbacks([entry], request.locale, requestOptions, request.select);
+    return merged!;
   }
 
   /**
    * Get the space entry for the current connection.
+   *
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    */
-  async spaceEntry(): Promise<SpaceEntry> {
-    return this.query("space");
+  async spaceEntry(options?: ClientRequestOptions): Promise<SpaceEntry> {
+    return this.query("space", undefined, undefined, options);
+  }
+
+  /**
+   * Get the organization that owns the current space. Requires the `SPACE_READ` permission.
+   *
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   */
+  async organizationEntry(options?: ClientRequestOptions): Promise<OrganizationEntry> {
+    return this.query("organization", undefined, undefined, options);
+  }
+
+  /**
+   * Get a collection of the environments of the current space. Requires the `SPACE_READ` permission.
+   *
+   * @param {EnvironmentCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   */
+  async environmentCollection(
+    request?: EnvironmentCollectionRequest,
+    options?: ClientRequestOptions,
+  ): Promise<CollectionResponse<EnvironmentEntry>> {
+    return this.query("environments", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all environments of the current space, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {EnvironmentCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   */
+  environmentCollectionIterator(
+    request?: EnvironmentCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<EnvironmentEntry, CollectionResponse<EnvironmentEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.environmentCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
+  }
+
+  /**
+   * Get a specific environment of the current space by its ID. Requires the `SPACE_READ` permission.
+   *
+   * @param {EnvironmentEntryRequest} request The ID of the environment.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @throws {ContentCloudNotFoundError} If the environment doesn't exist.
+   */
+  async environmentEntry(request: EnvironmentEntryRequest, options?: ClientRequestOptions): Promise<EnvironmentEntry> {
+    return this.query<EnvironmentEntry>("environments", request.id, undefined, options);
+  }
+
+  /**
+   * Get the environments of the current space that the access token can reach. Tokens without environment
+   * restrictions reach all environments.
+   *
+   * @param {PaginationOptions} [options] Options for the requests, e.g. an AbortSignal.
+   * @returns {Promise<EnvironmentEntry[]>} The reachable environments.
+   */
+  async accessibleEnvironments(options?: PaginationOptions): Promise<EnvironmentEntry[]> {
+    const environments = await this.environmentCollectionIterator(undefined, options).toArray();
+
+    const token = await this.tokens?.getToken();
+    const claims = token ? parseJwt(token) : undefined;
+    const scope: string[] = typeof claims?.scope === "string" ? claims.scope.split(" ") : (claims?.scope ?? []);
+    const environmentIds = scope.filter((entry) => entry.startsWith("environment:")).map((entry) => entry.slice("environment:".length));
+    if (!environmentIds.length || environmentIds.includes("*")) {
+      return environments;
+    }
+
+    return environments.filter((environment) => environmentIds.includes(environment.id) || environmentIds.includes(environment.uuid));
+  }
+
+  /**
+   * Get the feature configuration of the organization, the space and the environment of the client, and the merged
+   * configuration that applies to the environment.
+   *
+   * @param {ClientRequestOptions} [options] Options for the requests, e.g. an AbortSignal.
+   * @returns {Promise<ResolvedFeatureConfig>} The configuration of each level and the merged configuration.
+   */
+  async featureConfig(options?: ClientRequestOptions): Promise<ResolvedFeatureConfig> {
+    const environmentId = this.options.environmentId;
+    const [organization, space, environment] = await Promise.all([
+      this.organizationEntry(options),
+      this.spaceEntry(options),
+      environmentId ? this.environmentEntry({ id: environmentId }, options) : undefined,
+    ]);
+
+    const config = {
+      organization: organization.featureConfig ?? {},
+      space: space.featureConfig ?? {},
+      environment: environment?.featureConfig ?? {},
+    };
+    return { ...config, resolved: { ...config.organization, ...config.space, ...config.environment } };
   }
 
   /**
    * Get a list of locales for the current space.
    *
    * @param {LocaleCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   */
+  async localeCollection(request?: LocaleCollectionRequest, options?: ClientRequestOptions): Promise<CollectionResponse<LocaleEntry>> {
+    return this.query("locales", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all locales, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {LocaleCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
    */
-  async localeCollection(request?: LocaleCollectionRequest): Promise<CollectionResponse<LocaleEntry>> {
-    return this.query("locales", undefined, request);
+  localeCollectionIterator(
+    request?: LocaleCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<LocaleEntry, CollectionResponse<LocaleEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.localeCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
   }
 
   /**
    * Get a collection of assets.
    *
    * @param {AssetCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    */
-  async assetCollection(request?: AssetCollectionRequest): Promise<CollectionResponse<AssetEntry>> {
-    return this.query("assets", undefined, request);
+  async assetCollection(request?: AssetCollectionRequest, options?: ClientRequestOptions): Promise<CollectionResponse<AssetEntry>> {
+    return this.query("assets", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all assets, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {AssetCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   */
+  assetCollectionIterator(
+    request?: AssetCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<AssetEntry, CollectionResponse<AssetEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.assetCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
   }
 
   /**
    * Get a specific asset by its ID.
    *
    * @param {AssetEntryRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    */
-  async assetEntry(request?: AssetEntryRequest): Promise<AssetEntry | null> {
+  async assetEntry(request?: AssetEntryRequest, options?: ClientRequestOptions): Promise<AssetEntry | null> {
     if (request?.id) {
-      return this.query<AssetEntry>("assets", request.id, request);
+      return this.query<AssetEntry>("assets", request.id, request, options);
     }
-    const response = await this.query<CollectionResponse<AssetEntry>>("assets", undefined, request);
+    const response = await this.query<CollectionResponse<AssetEntry>>("assets", undefined, request, options);
 
     return response?.items?.[0] ?? null;
   }
 
+  /**
+   * Download the file of an asset. Requires the `ASSET_READ_FILE` permission for non-public assets.
+   * The response is never cached. Use `stream()` or `arrayBuffer()` on the result to consume the content. The timeout
+   * and the signal also apply while the content is read.
+   * The access token is only sent if the file is served by the base URL or one of the configured `assetHosts`.
+   *
+   * @param {string | AssetEntry} asset The ID of the asset or the asset itself.
+   * @param {AssetFileOptions} [options] The range to request, whether to verify the content and options for the request.
+   * @returns {Promise<AssetFile>} The downloaded file.
+   * @throws {ContentCloudNotFoundError} If the asset doesn't exist.
+   * @throws {Error} If the asset has no download URL.
+   */
+  async assetFile(asset: string | AssetEntry, options?: AssetFileOptions): Promise<AssetFile> {
+    const { range, verify, ...requestOptions } = options ?? {};
+
+    const entry = typeof asset === "string" ? await this.assetEntry({ id: asset }, requestOptions) : asset;
+    if (!entry) {
+      throw new ContentCloudNotFoundError({ status: 404, method: "GET", url: `${this.options.baseUrl}/assets/${asset}` });
+    }
+
+    const file = entry.fields.file;
+    const downloadUrl = file.downloadUrl ?? file.url;
+    if (!downloadUrl) {
+      throw new Error(`Asset ${entry.sys.id} has no download URL.`);
+    }
+
+    const url = new URL(downloadUrl, this.options.baseUrl);
+    // Download URLs can point to a third-party CDN, which must not receive the access token.
+    const trusted = url.origin === new URL(this.options.baseUrl).origin || this.assetOrigins.includes(url.origin);
+    const response = await sendRequest(
+      {
+        method: "GET",
+        url: url.toString(),
+        headers: range ? { Range: formatByteRange(range) } : {},
+      },
+      {
+        fetch: this.fetch,
+        tokens: trusted ? this.tokens : undefined,
+        retry: requestOptions.retry ?? this.options.retry,
+        idempotent: true,
+        signal: requestOptions.signal,
+        timeout: requestOptions.timeout ?? this.options.timeout,
+        middleware: this.options.middleware,
+      },
+    );
+
+    return new AssetFile(entry, response, url.toString(), verify);
+  }
+
   /**
    * Get a collection of tags.
    *
    * @param {TagCollectionRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   */
+  async tagCollection(request?: TagCollectionRequest, options?: ClientRequestOptions): Promise<CollectionResponse<TagEntry>> {
+    return this.query("tags", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all tags, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {TagCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
    */
-  async tagCollection(request?: TagCollectionRequest): Promise<CollectionResponse<TagEntry>> {
-    return this.query("tags", undefined, request);
+  tagCollectionIterator(
+    request?: TagCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<TagEntry, CollectionResponse<TagEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.tagCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
   }
 
   /**
    * Get a specific tag by its ID.
    *
    * @param {TagEntryRequest} [request] The request parameters to use for the request.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
    */
-  async tagEntry(request?: TagEntryRequest): Promise<TagEntry | null> {
+  async tagEntry(request?: TagEntryRequest, options?: ClientRequestOptions): Promise<TagEntry | null> {
     if (request?.id) {
-      return this.query<TagEntry>("tags", request.id, request);
+      return this.query<TagEntry>("tags", request.id, request, options);
     }
-    const response = await this.query<CollectionResponse<TagEntry>>("tags", undefined, request);
+    const response = await this.query<CollectionResponse<TagEntry>>("tags", undefined, request, options);
 
     return response?.items?.[0] ?? null;
   }
+
+  /**
+   * Get a collection of external entry links, e.g. the canonical URLs of content on your sites.
+   * Requires the `EXTERNAL_LINK_READ` permission.
+   *
+   * @param {ExternalLinkCollectionRequest} [request] The request parameters to use for the request, e.g. to filter by link type, domain, site or entry.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   */
+  async externalLinkCollection(
+    request?: ExternalLinkCollectionRequest,
+    options?: ClientRequestOptions,
+  ): Promise<CollectionResponse<ExternalEntryLinkEntry>> {
+    return this.query("external_links", undefined, request, options);
+  }
+
+  /**
+   * Iterate over all external entry links, requesting one page after another.
+   * Use `for await` to iterate over the entries or `.pages()` to iterate over the page responses.
+   *
+   * @param {ExternalLinkCollectionRequest} [request] The request parameters to use for the request. `skip` and `limit` define the first page.
+   * @param {PaginationOptions} [options] Options to limit the number of items, prefetch pages and for each request.
+   */
+  externalLinkCollectionIterator(
+    request?: ExternalLinkCollectionRequest,
+    options?: PaginationOptions,
+  ): PaginatedCollection<ExternalEntryLinkEntry, CollectionResponse<ExternalEntryLinkEntry>> {
+    return new PaginatedCollection((page: PageRequest) => this.externalLinkCollection({ ...request, ...page }, options), {
+      skip: request?.skip,
+      limit: request?.limit,
+      ...options,
+    });
+  }
+
+  /**
+   * Get a specific external entry link by its ID. Requires the `EXTERNAL_LINK_READ` permission.
+   *
+   * @param {ExternalLinkEntryRequest} request The ID of the link.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @returns {Promise<ExternalEntryLinkEntry>} The link.
+   * @throws {ContentCloudNotFoundError} If the link doesn't exist.
+   */
+  async externalLinkEntry(request: ExternalLinkEntryRequest, options?: ClientRequestOptions): Promise<ExternalEntryLinkEntry> {
+    return this.query<ExternalEntryLinkEntry>("external_links", request.id, undefined, options);
+  }
+
+  /**
+   * Register an external link for a content entry, e.g. the canonical and pretty URL of the entry on your site.
+   * Requires the `EXTERNAL_LINK_WRITE` permission.
+   * Cached responses keep the previous `externalLinks` of the entry until they expire or `invalidateCache` is called.
+   *
+   * @param {string} entryId The ID of the content entry the link belongs to.
+   * @param {ExternalEntryLinkData} link The link to create.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @returns {Promise<ExternalEntryLinkEntry>} The created link.
+   */
+  async createExternalLink(entryId: string, link: ExternalEntryLinkData, options?: ClientRequestOptions): Promise<ExternalEntryLinkEntry> {
+    return this.post(`/entries/${entryId}/external_links`, link, options);
+  }
+
+  /**
+   * Replace an external entry link. Requires the `EXTERNAL_LINK_WRITE` permission.
+   *
+   * @param {string} id The ID of the link.
+   * @param {ExternalEntryLinkData} link The new values of the link.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @returns {Promise<ExternalEntryLinkEntry>} The updated link.
+   * @throws {ContentCloudNotFoundError} If the link doesn't exist.
+   */
+  async updateExternalLink(id: string, link: ExternalEntryLinkData, options?: ClientRequestOptions): Promise<ExternalEntryLinkEntry> {
+    return this.put(`/external_links/${id}`, link, options);
+  }
+
+  /**
+   * Delete an external entry link. Requires the `EXTERNAL_LINK_WRITE` permission.
+   *
+   * @param {string} id The ID of the link.
+   * @param {ClientRequestOptions} [options] Options for this request, e.g. an AbortSignal.
+   * @throws {ContentCloudNotFoundError} If the link doesn't exist.
+   */
+  async deleteExternalLink(id: string, options?: ClientRequestOptions): Promise<void> {
+    return this.delete(`/external_links/${id}`, options);
+  }
 }
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { createServer, request as httpRequest, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { toNodeHandler } from "./content-cloud-token-exchange";
+
+/**
+ * Send a request to the server and return the status code and the body.
+ */
+function send(server: Server, path: string, headers: Record<string, string> = {}): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = httpRequest({ host: "127.0.0.1", port, path, headers }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, body }));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("toNodeHandler", () => {
+  const server = createServer(
+    toNodeHandler(async (request) => {
+      if (new URL(request.url).pathname === "/fail") {
+        throw new Error("The handler failed.");
+      }
+      return Response.json({ url: request.url }, { headers: { "X-Handled": "1" } });
+    }),
+  );
+
+  before(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)));
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("passes the request to the handler and sends its response", async () => {
+    const { status, body } = await send(server, "/token?ttl=60", { Host: "app.example.com" });
+
+    assert.equal(status, 200);
+    assert.deepEqual(JSON.parse(body), { url: "http://app.example.com/token?ttl=60" });
+  });
+
+  it("responds with a 400 if the request can't be converted", async () => {
+    const { status, body } = await send(server, "/token", { Host: "bad host" });
+
+    assert.equal(status, 400);
+    assert.deepEqual(JSON.parse(body), { error: "The request is invalid." });
+  });
+
+  it("responds with a 500 if the handler throws", async (context) => {
+    context.mock.method(console, "error", () => {});
+    const { status, body } = await send(server, "/fail", { Host: "app.example.com" });
+
+    assert.equal(status, 500);
+    assert.deepEqual(JSON.parse(body), { error: "Failed to create access token." });
+  });
+});
@@ -0,0 +1,237 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { ContentCloudJwtPayload, ContentCloudKeyring } from "./content-cloud-access-token-claims";
+import { generateAccessToken } from "./content-cloud-authentication-web";
+import { parseJwt } from "./content-cloud-token-manager";
+
+/**
+ * Options for the token exchange handler.
+ *
+ * @template User The type of the authenticated user.
+ */
+export interface TokenExchangeOptions<User> {
+  /**
+   * Authenticate the caller, e.g. by validating the session cookie. Return null or undefined to reject the request
+   * with a 401.
+   */
+  authenticate: (request: Request) => User | null | undefined | Promise<User | null | undefined>;
+  /**
+   * Build the payload of the token for the authenticated user, e.g. with `createAccessTokenPayload("userDataApp", ...)`.
+   * Return null or undefined to reject the request with a 403.
+   */
+  policy: (user: User, request: Request) => ContentCloudJwtPayload | null | undefined | Promise<ContentCloudJwtPayload | null | undefined>;
+  /**
+   * The client secret or keyring to sign the tokens with. Defaults to the CC_CLIENT_SECRET environment variable.
+   */
+  clientSecret?: string | ContentCloudKeyring;
+  /**
+   * The TTL of the tokens in seconds if the caller doesn't request one. Defaults to 3600.
+   */
+  ttl?: number;
+  /**
+   * The maximum TTL in seconds the caller can request. Longer TTLs are capped. Defaults to 3600.
+   */
+  maxTtl?: number;
+  /**
+   * Additional headers for all responses, e.g. for CORS.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Sign the token. Defaults to the Web Crypto implementation of generateAccessToken, so the handler runs in Node
+   * and edge runtimes alike.
+   */
+  sign?: (payload: ContentCloudJwtPayload, ttlInSeconds: number, clientSecret?: string | ContentCloudKeyring) => string | Promise<string>;
+}
+
+/**
+ * The response body of a successful token exchange.
+ */
+export interface TokenExchangeResponse {
+  accessToken: string;
+  tokenType: "Bearer";
+  /**
+   * The TTL of the token in seconds.
+   */
+  expiresIn: number;
+  /**
+   * The expiry of the token as an ISO 8601 timestamp.
+   */
+  expiresAt: string;
+}
+
+/**
+ * Read the requested TTL from the query string of GET requests or the JSON body of POST requests.
+ *
+ * @param {Request} request The request.
+ * @returns {Promise<number | undefined>} The requested TTL in seconds or undefined if none was requested.
+ * @throws {Error} If the TTL or the body is invalid.
+ */
+async function getRequestedTtl(request: Request): Promise<number | undefined> {
+  let ttl: unknown;
+  if (request.method === "POST") {
+    const text = await request.text();
+    if (text) {
+      const body = JSON.parse(text);
+      ttl = body && typeof body === "object" ? body.ttl : undefined;
+    }
+  } else {
+    ttl = new URL(request.url).searchParams.get("ttl") ?? undefined;
+  }
+
+  if (ttl === undefined || ttl === null) {
+    return undefined;
+  }
+
+  const seconds = Number(ttl);
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(`ttl must be a positive integer.`);
+  }
+  return seconds;
+}
+
+/**
+ * Create a framework-agnostic request handler that exchanges the session of a logged-in user for a Content Cloud
+ * access token, so browser apps never see the client secret. Accepts GET requests with an optional `ttl` query
+ * parameter and POST requests with an optional `{ "ttl": number }` JSON body.
+ *
+ * Use it directly with Fetch API based frameworks or wrap it with `toNodeHandler` for Node's http module.
+ *
+ * @param {TokenExchangeOptions<User>} options How to authenticate the caller and build the token.
+ * @returns {(request: Request) => Promise<Response>} The request handler.
+ *
+ * @template User The type of the authenticated user.
+ */
+export function createTokenExchangeHandler<User>(options: TokenExchangeOptions<User>): (request: Request) => Promise<Response> {
+  const maxTtl = options.maxTtl ?? 3_600;
+  const defaultTtl = Math.min(options.ttl ?? 3_600, maxTtl);
+  const sign = options.sign ?? generateAccessToken;
+
+  const respond = (status: number, body: object) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...options.headers, "Content-Type": "application/json", "Cache-Control": "no-store" },
+    });
+
+  return async (request: Request) => {
+    // Answer CORS preflight requests with the configured headers.
+    if (request.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: options.headers });
+    }
+    if (request.method !== "GET" && request.method !== "POST") {
+      return respond(405, { error: `Method ${request.method} is not allowed.` });
+    }
+
+    let requestedTtl: number | undefined;
+    try {
+      requestedTtl = await getRequestedTtl(request);
+    } catch (error) {
+      return respond(400, { error: error instanceof SyntaxError ? "The request body must be JSON." : (error as Error).message });
+    }
+
+    try {
+      const user = await options.authenticate(request);
+      if (user === null || user === undefined) {
+        return respond(401, { error: "Authentication required." });
+      }
+
+      const payload = await options.policy(user, request);
+      if (!payload) {
+        return respond(403, { error: "No access to the Content Cloud." });
+      }
+
+      const ttl = Math.min(requestedTtl ?? defaultTtl, maxTtl);
+      const accessToken = await sign(payload, ttl, options.clientSecret);
+      const exp = parseJwt(accessToken).exp;
+
+      const response: TokenExchangeResponse = {
+        accessToken,
+        tokenType: "Bearer",
+        expiresIn: ttl,
+        expiresAt: new Date(typeof exp === "number" ? exp * 1_000 : Date.now() + ttl * 1_000).toISOString(),
+      };
+      return respond(200, response);
+    } catch (error) {
+      // Don't leak details about the configuration to the caller.
+      console.error("Failed to exchange access token:", error);
+      return respond(500, { error: "Failed to create access token." });
+    }
+  };
+}
+
+/**
+ * Convert a request of Node's http module to a Fetch API request, reading the whole body.
+ *
+ * @param {IncomingMessage} req The Node request.
+ * @returns {Promise<Request>} The Fetch API request.
+ * @throws {Error} If the body can't be read, e.g. because the client aborted, or the Host header or URL is invalid.
+ */
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  let body: BodyInit | undefined;
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    body = new Uint8Array(Buffer.concat(chunks));
+  }
+
+  const protocol = (req.socket as { encrypted?: boolean }).encrypted ? "https" : "http";
+  return new Request(`${protocol}://${req.headers.host ?? "localhost"}${req.url ?? "/"}`, { method: req.method, headers, body });
+}
+
+/**
+ * Send an error as JSON, or end the connection if the response has already started.
+ *
+ * @param {ServerResponse} res The Node response.
+ * @param {number} status The status code.
+ * @param {string} error The error message.
+ */
+function sendError(res: ServerResponse, status: number, error: string) {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify({ error }));
+}
+
+/**
+ * Adapt a Fetch API request handler to Node's http module, e.g. `http.createServer(toNodeHandler(handler))` or as an
+ * Express route handler. Requests that can't be read respond with a 400 and failures of the handler with a 500, so
+ * the returned promise never rejects.
+ *
+ * @param {(request: Request) => Promise<Response>} handler The Fetch API handler.
+ * @returns {(req: IncomingMessage, res: ServerResponse) => Promise<void>} The Node request listener.
+ */
+export function toNodeHandler(
+  handler: (request: Request) => Promise<Response>,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let request: Request;
+    try {
+      request = await toRequest(req);
+    } catch {
+      sendError(res, 400, "The request is invalid.");
+      return;
+    }
+
+    try {
+      const response = await handler(request);
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => res.setHeader(name, value));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      console.error("Failed to handle the token exchange request:", error);
+      sendError(res, 500, "Failed to create access token.");
+    }
+  };
+}
@@ -0,0 +1,201 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A function that returns a valid access token, e.g. by calling `generateAccessToken` or requesting a token from
+ * your backend. It's called lazily whenever the cached token is about to expire or was rejected.
+ */
+export type AccessTokenProvider = () => string | Promise<string>;
+
+/**
+ * The ways to provide the access token to the clients: a static token, a provider or a manager shared by clients.
+ */
+export type AccessTokenSource = string | AccessTokenProvider | ContentCloudTokenManager;
+
+/**
+ * Options for the token manager.
+ */
+export interface TokenManagerOptions {
+  /**
+   * How many milliseconds before the token expires it's refreshed. Defaults to 60_000.
+   */
+  refreshBefore?: number;
+}
+
+/**
+ * Parses a JWT token to return the payload.
+ * !!! THIS DOES NOT VALIDATE THE TOKEN !!!
+ *
+ * @param {string} token The JWT token to parse.
+ * @returns {Record<string, any>} The parsed payload of the token.
+ */
+export function parseJwt(token: string): Record<string, any> {
+  const base64Url = token.split(".")[1]!;
+  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+  const jsonPayload = decodeURIComponent(
+    atob(base64)
+      .split("")
+      .map(function (c) {
+        return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
+      })
+      .join(""),
+  );
+
+  return JSON.parse(jsonPayload);
+}
+
+/**
+ * Get the expiry of the given JWT in milliseconds.
+ *
+ * @param {string} token The JWT token.
+ * @returns {number | undefined} The timestamp in milliseconds or undefined if the token doesn't expire or isn't a JWT.
+ */
+function getTokenExpiry(token: string): number | undefined {
+  try {
+    const exp = parseJwt(token).exp;
+    return typeof exp === "number" ? exp * 1_000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get a fingerprint of what the given token grants access to, i.e. its claims except for its lifetime and ID, so
+ * refreshed tokens with the same claims share the fingerprint. Tokens that aren't JWTs are fingerprinted as a whole.
+ *
+ * @param {string} token The access token.
+ * @returns {Promise<string>} The hex encoded fingerprint.
+ */
+async function getScopeFingerprint(token: string): Promise<string> {
+  let scope = token;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { exp, iat, nbf, jti, ...claims } = parseJwt(token);
+    scope = JSON.stringify(claims);
+  } catch {
+    // Not a JWT, so fingerprint the whole token.
+  }
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(scope));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * ContentCloudTokenManager provides the access token for all requests of one or more clients.
+ * Tokens from a provider are requested lazily, cached until shortly before they expire and refreshed once if the
+ * API rejects them with a 401. Concurrent requests share the same refresh.
+ *
+ * Pass the same manager to the REST and GraphQL clients to share the token, e.g. `restClient.tokens`.
+ */
+export class ContentCloudTokenManager {
+  private token?: string;
+  private expiresAt?: number;
+  private pending?: Promise<string>;
+  private scope?: { token: string; fingerprint: Promise<string> };
+
+  /**
+   * Create a new instance of the ContentCloudTokenManager.
+   *
+   * @param {string | AccessTokenProvider} source A static token or a function providing the token.
+   * @param {TokenManagerOptions} [options] When to refresh the token.
+   */
+  constructor(
+    private readonly source: string | AccessTokenProvider,
+    private readonly options: TokenManagerOptions = {},
+  ) {
+    if (typeof source === "string") {
+      this.token = source;
+    }
+  }
+
+  /**
+   * Create a token manager for the given source, reusing it if it's a manager already.
+   *
+   * @param {AccessTokenSource} [source] The static token, provider or manager.
+   * @returns {ContentCloudTokenManager | undefined} The manager or undefined if no source is given.
+   */
+  static from(source?: AccessTokenSource): ContentCloudTokenManager | undefined {
+    if (!source) {
+      return undefined;
+    }
+    return source instanceof ContentCloudTokenManager ? source : new ContentCloudTokenManager(source);
+  }
+
+  /**
+   * Whether the token is requested from a provider and can be refreshed.
+   */
+  get refreshable(): boolean {
+    return typeof this.source === "function";
+  }
+
+  /**
+   * The token that was provided last, if any. Static tokens are available immediately.
+   */
+  get currentToken(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Get a valid access token, requesting a new one from the provider if there's none yet or it's about to expire.
+   *
+   * @returns {Promise<string>} The access token.
+   */
+  async getToken(): Promise<string> {
+    if (typeof this.source === "string") {
+      return this.source;
+    }
+
+    if (this.token && (this.expiresAt === undefined || this.expiresAt - (this.options.refreshBefore ?? 60_000) > Date.now())) {
+      return this.token;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Get a fingerprint of what the current token grants access to. Caches use it to only share responses between
+   * clients whose tokens have the same claims.
+   *
+   * @returns {Promise<string>} The fingerprint of the current token.
+   */
+  async getScope(): Promise<string> {
+    const token = await this.getToken();
+    if (this.scope?.token !== token) {
+      this.scope = { token, fingerprint: getScopeFingerprint(token) };
+    }
+    return this.scope.fingerprint;
+  }
+
+  /**
+   * Mark the given token as rejected, so the next call to `getToken` requests a new one.
+   * Does nothing if the token was already replaced, e.g. by a concurrent request.
+   *
+   * @param {string} token The rejected token.
+   */
+  invalidate(token: string) {
+    if (this.refreshable && this.token === token) {
+      this.token = undefined;
+      this.expiresAt = undefined;
+    }
+  }
+
+  /**
+   * Request a new token from the provider. Concurrent calls share the same request.
+   *
+   * @returns {Promise<string>} The new token.
+   */
+  private refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = (async () => {
+        try {
+          const token = await (this.source as AccessTokenProvider)();
+          this.token = token;
+          this.expiresAt = getTokenExpiry(token);
+          return token;
+        } finally {
+          this.pending = undefined;
+        }
+      })();
+    }
+    return this.pending;
+  }
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createContentCloudGraphQLClient } from "./content-cloud-graphql-client";
+import { ContentCloudRestClient } from "./content-cloud-rest-client";
+import { ContentTypeEntry } from "./content-cloud-system-rest-client";
+import { ContentCloudSchemaValidationError, ContentCloudSchemaValidator, ValidationIssue } from "./content-cloud-validator";
+
+const BASE_URL = "https://api.example.com";
+
+const VALIDATOR = new ContentCloudSchemaValidator([
+  { id: "ct-article", machineName: "article", properties: [{ machineName: "title", type: "string", isRequired: true }] },
+  { id: "ct-favorite", machineName: "favorite", properties: [{ machineName: "rating", type: "integer", isRequired: true }] },
+] as ContentTypeEntry[]);
+
+/**
+ * Create a fetch function that answers every request with the given body and records the requested URLs.
+ */
+function mockFetch(body: unknown) {
+  const calls: string[] = [];
+  const fetch = (async (url: string) => {
+    calls.push(url);
+    return Response.json(body);
+  }) as typeof globalThis.fetch;
+
+  return { fetch, calls };
+}
+
+describe("ContentCloudSchemaValidator", () => {
+  it("rejects invalid user data of GraphQL mutations before they're sent", async () => {
+    const { fetch, calls } = mockFetch({});
+    const client = createContentCloudGraphQLClient({ baseUrl: BASE_URL, fetch, validate: VALIDATOR });
+
+    await assert.rejects(client.setContentUserData("Favorite", { rating: 1 }, { contentId: "1", input: { rating: 4.5 } }), (error) => {
+      assert.ok(error instanceof ContentCloudSchemaValidationError);
+      assert.deepEqual(error.issues, [{ path: ["input", "rating"], code: "type", message: "must be of type integer" }]);
+      return true;
+    });
+    assert.equal(calls.length, 0);
+  });
+
+  it("reports GraphQL entries that don't match their content type", async () => {
+    const issues: ValidationIssue[][] = [];
+    const client = createContentCloudGraphQLClient({
+      baseUrl: BASE_URL,
+      fetch: mockFetch({ data: { article: { title: 1 } } }).fetch,
+      validate: VALIDATOR,
+      onValidationIssues: (found) => issues.push(found),
+    });
+
+    assert.deepEqual(await client.entry("Article", { title: 1 }, { id: "1" }), { title: 1 });
+    assert.deepEqual(issues, [[{ path: ["title"], code: "type", message: "must be of type string" }]]);
+  });
+
+  it("rejects REST responses that don't match unless the issues are reported with a callback", async () => {
+    const body = { items: [{ sys: { id: "1", contentType: { sys: { id: "ct-article" } } }, fields: {} }], total: 1, skip: 0, limit: 100 };
+    const issues: ValidationIssue[][] = [];
+    const client = (onValidationIssues?: (issues: ValidationIssue[]) => void) =>
+      new ContentCloudRestClient({ baseUrl: BASE_URL, fetch: mockFetch(body).fetch, validate: VALIDATOR, onValidationIssues });
+
+    await assert.rejects(client().contentCollection({ content_type: "article" }), ContentCloudSchemaValidationError);
+    await client((found) => issues.push(found)).contentCollection({ content_type: "article" });
+    assert.deepEqual(issues, [[{ path: ["items", 0, "fields", "title"], code: "required", message: "is required" }]]);
+  });
+});
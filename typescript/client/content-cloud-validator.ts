@@ -0,0 +1,359 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getGraphQLTypeName } from "./content-cloud-cache";
+import { ContentCloudValidationError } from "./content-cloud-errors";
+import { PaginationOptions } from "./content-cloud-pagination";
+import { ContentCloudSystemRestClient, ContentTypeEntry, ContentTypePropertyEntry } from "./content-cloud-system-rest-client";
+
+/**
+ * A single problem found while validating data against a content type.
+ */
+export interface ValidationIssue {
+  /**
+   * The path to the invalid value, e.g. ["items", 0, "fields", "tags", 2].
+   */
+  path: (string | number)[];
+  /**
+   * The kind of problem, to handle issues programmatically.
+   */
+  code: "required" | "type" | "array" | "item_required" | "link" | "link_type" | "unknown_property" | "unknown_content_type";
+  message: string;
+}
+
+/**
+ * The result of a validation.
+ */
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Options for validating fields.
+ */
+export interface ValidateFieldsOptions {
+  /**
+   * Don't report missing required properties, e.g. if only some fields were selected. Defaults to false.
+   */
+  partial?: boolean;
+  /**
+   * Report properties that aren't defined by the content type. Defaults to true.
+   */
+  strict?: boolean;
+  /**
+   * The path of the fields, prepended to the path of all issues.
+   */
+  path?: (string | number)[];
+  /**
+   * Whether the fields are from a GraphQL response or input. Linked and embedded entries only contain the selected
+   * fields of the entry then, so they are only checked to be objects. Defaults to false.
+   */
+  graphql?: boolean;
+}
+
+/**
+ * Thrown if data is rejected by the ContentCloudSchemaValidator before it's sent, or if a response doesn't match the
+ * content types and the client has no `onValidationIssues` callback. The `status` is always 0.
+ */
+export class ContentCloudSchemaValidationError extends ContentCloudValidationError {
+  /**
+   * Create a new instance of the ContentCloudSchemaValidationError.
+   *
+   * @param {string} method The HTTP method of the request.
+   * @param {string} url The full URL of the request.
+   * @param {ValidationIssue[]} issues The problems that were found.
+   */
+  constructor(
+    method: string,
+    url: string,
+    public readonly issues: ValidationIssue[],
+  ) {
+    super({ status: 0, method, url }, `Invalid data for ${method} ${url}: ${issues.map(formatValidationIssue).join("; ")}`);
+  }
+}
+
+/**
+ * Format an issue as a single line, e.g. `fields.tags[2]: must be a link`.
+ *
+ * @param {ValidationIssue} issue The issue to format.
+ * @returns {string} The formatted issue.
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  const path = issue.path
+    .map((segment, index) => (typeof segment === "number" ? `[${segment}]` : index ? `.${segment}` : segment))
+    .join("");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Check a scalar value against the type of a property. Unknown types are accepted as anything.
+ *
+ * @param {string} type The type of the property.
+ * @param {unknown} value The value to check.
+ * @returns {boolean} Whether the value matches the type.
+ */
+function matchesType(type: string, value: unknown): boolean {
+  switch (type.toLowerCase()) {
+    case "string":
+    case "text":
+    case "richtext":
+      return typeof value === "string";
+    case "integer":
+      return Number.isInteger(value);
+    case "float":
+    case "number":
+      return typeof value === "number" && isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+    case "datetime":
+      return typeof value === "string" && !isNaN(Date.parse(value));
+    case "json":
+    case "object":
+      return typeof value === "object";
+    default:
+      return true;
+  }
+}
+
+/**
+ * ContentCloudSchemaValidator checks entries and user data against the content types of the space, e.g. to reject
+ * invalid user data before it's sent or to find responses that don't match the generated types during development.
+ *
+ * Create it with `ContentCloudSchemaValidator.load(client)` to load all content types, or pass the content types
+ * directly.
+ */
+export class ContentCloudSchemaValidator {
+  private readonly contentTypes = new Map<string, ContentTypeEntry>();
+
+  /**
+   * Create a new instance of the ContentCloudSchemaValidator.
+   *
+   * @param {ContentTypeEntry[]} contentTypes The content types to validate against.
+   */
+  constructor(contentTypes: ContentTypeEntry[]) {
+    for (const contentType of contentTypes) {
+      // Entries and links refer to content types by their ID, user data by its machine name and GraphQL by its type name.
+      const keys = [contentType.id, contentType.sys?.id, contentType.customId, contentType.machineName];
+      for (const key of [...keys, contentType.machineName && getGraphQLTypeName(contentType.machineName)]) {
+        if (key) {
+          this.contentTypes.set(key, contentType);
+        }
+      }
+    }
+  }
+
+  /**
+   * Load all content types with the given client and create a validator for them.
+   *
+   * @param {ContentCloudSystemRestClient} client The client to load the content types with.
+   * @param {PaginationOptions} [options] Options for the requests, e.g. an AbortSignal.
+   * @returns {Promise<ContentCloudSchemaValidator>} The validator.
+   */
+  static async load(client: ContentCloudSystemRestClient, options?: PaginationOptions): Promise<ContentCloudSchemaValidator> {
+    return new ContentCloudSchemaValidator(await client.contentTypeCollectionIterator(undefined, options).toArray());
+  }
+
+  /**
+   * Get a content type by its ID, custom ID, machine name or GraphQL type name.
+   *
+   * @param {string} contentType The ID, custom ID, machine name or GraphQL type name.
+   * @returns {ContentTypeEntry | undefined} The content type or undefined if it's unknown.
+   */
+  getContentType(contentType: string): ContentTypeEntry | undefined {
+    return this.contentTypes.get(contentType);
+  }
+
+  /**
+   * Validate the fields of an entry or the fields of a user data update.
+   *
+   * @param {string} contentType The ID, custom ID, machine name or GraphQL type name of the content type.
+   * @param {Record<string, any>} fields The fields to validate.
+   * @param {ValidateFieldsOptions} [options] Whether missing properties are allowed and the path of the fields.
+   * @returns {ValidationReport} The issues that were found.
+   */
+  validateFields(contentType: string, fields: Record<string, any>, options?: ValidateFieldsOptions): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    this.checkFields(contentType, fields, options?.path ?? [], options ?? {}, issues, new Set());
+    return { valid: !issues.length, issues };
+  }
+
+  /**
+   * Validate a content entry, including all resolved links and embedded entries.
+   *
+   * @param {Record<string, any>} entry The entry with `sys.contentType` and `fields`.
+   * @param {ValidateFieldsOptions} [options] Whether missing properties are allowed and the path of the entry.
+   * @returns {ValidationReport} The issues that were found.
+   */
+  validateEntry(entry: Record<string, any>, options?: ValidateFieldsOptions): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    this.checkEntry(entry, options?.path ?? [], options ?? {}, issues, new Set());
+    return { valid: !issues.length, issues };
+  }
+
+  /**
+   * Validate a delivery API response, i.e. a single entry or a collection of entries.
+   *
+   * @param {Record<string, any>} response The response body.
+   * @param {ValidateFieldsOptions} [options] Whether missing properties are allowed, e.g. if fields were selected.
+   * @returns {ValidationReport} The issues that were found.
+   */
+  validateResponse(response: Record<string, any>, options?: ValidateFieldsOptions): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const seen = new Set<object>();
+    if (Array.isArray(response.items)) {
+      response.items.forEach((item: any, index: number) => this.checkEntry(item, ["items", index], options ?? {}, issues, seen));
+    } else {
+      this.checkEntry(response, [], options ?? {}, issues, seen);
+    }
+    return { valid: !issues.length, issues };
+  }
+
+  /**
+   * Validate an entry if it has a content type, skipping entries that were already checked.
+   */
+  private checkEntry(entry: any, path: (string | number)[], options: ValidateFieldsOptions, issues: ValidationIssue[], seen: Set<object>) {
+    const contentType = entry?.sys?.contentType?.sys?.id;
+    if (!contentType || !entry.fields || seen.has(entry)) {
+      return;
+    }
+    seen.add(entry);
+
+    this.checkFields(contentType, entry.fields, [...path, "fields"], options, issues, seen);
+  }
+
+  /**
+   * Validate the fields against the properties of the content type.
+   */
+  private checkFields(
+    contentTypeId: string,
+    fields: Record<string, any>,
+    path: (string | number)[],
+    options: ValidateFieldsOptions,
+    issues: ValidationIssue[],
+    seen: Set<object>,
+  ) {
+    const contentType = this.contentTypes.get(contentTypeId);
+    if (!contentType) {
+      issues.push({ path, code: "unknown_content_type", message: `unknown content type "${contentTypeId}"` });
+      return;
+    }
+
+    const properties = new Map(contentType.properties.map((property) => [property.machineName, property]));
+    for (const property of properties.values()) {
+      const value = fields[property.machineName];
+      if (value === undefined || value === null) {
+        if (property.isRequired && !options.partial) {
+          issues.push({ path: [...path, property.machineName], code: "required", message: "is required" });
+        }
+        continue;
+      }
+
+      this.checkProperty(property, value, [...path, property.machineName], options, issues, seen);
+    }
+
+    if (options.strict !== false) {
+      for (const name of Object.keys(fields)) {
+        if (!properties.has(name)) {
+          issues.push({ path: [...path, name], code: "unknown_property", message: `is not a property of "${contentType.machineName}"` });
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a value against the property, including all items of arrays.
+   */
+  private checkProperty(
+    property: ContentTypePropertyEntry,
+    value: unknown,
+    path: (string | number)[],
+    options: ValidateFieldsOptions,
+    issues: ValidationIssue[],
+    seen: Set<object>,
+  ) {
+    if (property.isArray) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, code: "array", message: "must be an array" });
+        return;
+      }
+
+      value.forEach((item, index) => {
+        if (item === null || item === undefined) {
+          if (property.isItemRequired) {
+            issues.push({ path: [...path, index], code: "item_required", message: "must not be empty" });
+          }
+          return;
+        }
+        this.checkValue(property, item, [...path, index], options, issues, seen);
+      });
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      issues.push({ path, code: "type", message: "must not be an array" });
+      return;
+    }
+
+    this.checkValue(property, value, path, options, issues, seen);
+  }
+
+  /**
+   * Validate a single value, i.e. a link, an embedded entry or a scalar.
+   */
+  private checkValue(
+    property: ContentTypePropertyEntry,
+    value: any,
+    path: (string | number)[],
+    options: ValidateFieldsOptions,
+    issues: ValidationIssue[],
+    seen: Set<object>,
+  ) {
+    const embedded = this.contentTypes.get(property.type);
+    if (options.graphql && (property.isLink || embedded)) {
+      if (typeof value !== "object") {
+        issues.push({ path, code: property.isLink ? "link" : "type", message: "must be an entry" });
+      }
+      return;
+    }
+
+    if (property.isLink) {
+      if (typeof value !== "object" || typeof value.sys?.id !== "string") {
+        issues.push({ path, code: "link", message: "must be a link or an entry" });
+        return;
+      }
+
+      // Unresolved links don't include the content type, so only resolved entries are checked.
+      const contentTypeId = value.sys.contentType?.sys?.id;
+      if (contentTypeId && property.allowedTypes?.length) {
+        const contentType = this.contentTypes.get(contentTypeId);
+        const names = [contentTypeId, contentType?.id, contentType?.customId, contentType?.machineName];
+        if (!property.allowedTypes.some((allowed) => names.includes(allowed))) {
+          issues.push({
+            path,
+            code: "link_type",
+            message: `must link to ${property.allowedTypes.join(", ")}, not "${contentType?.machineName ?? contentTypeId}"`,
+          });
+        }
+      }
+
+      this.checkEntry(value, path, options, issues, seen);
+      return;
+    }
+
+    // Embedded entries are validated against their own content type.
+    if (embedded) {
+      if (typeof value !== "object") {
+        issues.push({ path, code: "type", message: `must be an entry of "${embedded.machineName}"` });
+      } else if (value.sys?.contentType) {
+        this.checkEntry(value, path, options, issues, seen);
+      } else if (value.fields) {
+        this.checkFields(embedded.id, value.fields, [...path, "fields"], options, issues, seen);
+      }
+      return;
+    }
+
+    if (!matchesType(property.type, value)) {
+      issues.push({ path, code: "type", message: `must be of type ${property.type}` });
+    }
+  }
+}
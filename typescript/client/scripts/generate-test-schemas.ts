@@ -0,0 +1,50 @@
+/**
+ * Generates rest-schema.ts and graphql-schema.ts from a fixed set of content types, so the clients can be
+ * type-checked and tested without a space. Runs before `npm test` and `npm run typecheck`.
+ */
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { generateSchemas } from "../content-cloud-schema-generator";
+import { ContentTypeEntry, ContentTypePropertyEntry } from "../content-cloud-system-rest-client";
+
+function property(machineName: string, type: string, overrides: Partial<ContentTypePropertyEntry> = {}): ContentTypePropertyEntry {
+  return {
+    machineName,
+    type,
+    isArray: false,
+    isRequired: false,
+    isItemRequired: false,
+    isLink: false,
+    isLocalized: false,
+    ...overrides,
+  } as ContentTypePropertyEntry;
+}
+
+const CONTENT_TYPES = [
+  {
+    id: "ct-article",
+    machineName: "article",
+    isIndependent: true,
+    properties: [
+      property("title", "string", { isRequired: true, isLocalized: true }),
+      property("slug", "string"),
+      property("author", "Link", { isLink: true, allowedTypes: ["ct-author"] }),
+      property("tags", "Link", { isLink: true, isArray: true, isItemRequired: true, allowedTypes: ["ct-tag"] }),
+    ],
+  },
+  { id: "ct-author", machineName: "author", isIndependent: true, properties: [property("name", "string", { isRequired: true })] },
+  { id: "ct-tag", machineName: "tag", isIndependent: true, properties: [property("name", "string", { isRequired: true })] },
+  { id: "ct-favorite", machineName: "favorite", isIndependent: true, properties: [property("rating", "integer", { isRequired: true })] },
+] as ContentTypeEntry[];
+
+async function main() {
+  const schemas = generateSchemas(CONTENT_TYPES, { userDataTypes: ["favorite"] });
+  for (const [name, content] of Object.entries(schemas)) {
+    await writeFile(join(__dirname, "..", name), content);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});